@@ -1,31 +1,177 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { CircleSimulation } from './CircleSimulation';
-import { Pause, Play, RotateCcw, Video, Type, Plus, X, Music, Music2, Upload } from 'lucide-react';
+import { Pause, Play, RotateCcw, Video, Type, Plus, X, Music, Music2, Upload, Square, ChevronUp, ChevronDown, Save, FolderOpen, Bookmark } from 'lucide-react';
 import { MidiNotePlayer } from './MidiNotePlayer';
-import { AudioManager } from './AudioManager';
-import { TextElement } from './types';
+import { MidiFileTrack, parseMidiFile } from './MidiFileImporter';
+import { DEFAULT_INSTRUMENT, INSTRUMENT_LABELS } from './Instruments';
+import {
+  DEFAULT_MELODY,
+  KEYS,
+  MELODY_PATTERN_LABELS,
+  SCALES,
+  generateMelody,
+  quantizeEvents
+} from './MelodyGenerator';
+import { DEFAULT_DYNAMICS, DYNAMICS_CURVE_LABELS, DYNAMICS_TARGET_LABELS } from './CollisionDynamics';
+import { formatNoteSequence, midiToNoteName, parseNoteSequence } from './NoteParser';
+import { SeededRandom } from './SeededRandom';
+import { AudioEngine } from './AudioEngine';
+import { AudioManager, DEFAULT_MUSIC_BED } from './AudioManager';
+import { OfflineRenderer } from './OfflineRenderer';
+import { BatchArchive } from './BatchArchive';
+import { EXPORT_FORMATS, getRecorderMimeType } from './ExportFormats';
+import { DEFAULT_MASTER_BUS, MasterLevels } from './MasterBus';
+import {
+  RANDOMIZED_PARAMETER_LABELS,
+  applyVariation,
+  getBallStart,
+  isRandomizationEnabled,
+  sampleVariation
+} from './BatchVariation';
+import {
+  CUSTOM_FONT_REFERENCE,
+  DEFAULT_PROJECT_SETTINGS,
+  Project,
+  ProjectAssetRef,
+  ProjectAssets,
+  createProjectArchive,
+  getAssetPath,
+  getProjectFileName,
+  readProjectArchive
+} from './ProjectFile';
+import { PresetInfo, ProjectStorage } from './ProjectStorage';
+import {
+  AudioTrackInfo,
+  ClipManifestEntry,
+  ClipVariation,
+  ContainerConfig,
+  ContainerShape,
+  EndConditions,
+  EndEvent,
+  DynamicsConfig,
+  DynamicsCurve,
+  DynamicsMapping,
+  DynamicsSource,
+  DynamicsTarget,
+  EnvelopeConfig,
+  ExportFormat,
+  FileImportStage,
+  InstrumentConfig,
+  InstrumentSample,
+  InstrumentType,
+  MasterBusConfig,
+  MelodyConfig,
+  MelodyPattern,
+  MusicBedConfig,
+  NoteParseError,
+  ParameterRange,
+  PhysicsParameters,
+  RandomizationConfig,
+  RandomizedParameter,
+  ScaleName,
+  SegmentationMode,
+  SegmentOrder,
+  SegmentPlaybackConfig,
+  SegmentPlaybackMode,
+  TrackSelectionMode,
+  TextElement
+} from './types';
+
+// Seconds the end card stays in a clip after an end condition fires
+const END_CARD_DURATION = 1.5;
+
+const FILE_IMPORT_STAGE_LABELS: Record<FileImportStage, string> = {
+  reading: 'Reading',
+  decoding: 'Decoding',
+  done: 'Done',
+  error: 'Failed'
+};
+
+// Quiet time after the last change before the session is autosaved
+const AUTOSAVE_DELAY = 2000;
+
+// Quiet time after the last edit of the segment length before tracks are re-segmented
+const RESEGMENT_DELAY = 300;
+
+// Bottom of the level meters in dBFS
+const METER_FLOOR_DB = -60;
+
+// A batch clip's seed and the settings it was recorded with
+interface PreparedClip {
+  seed: number;
+  physics: PhysicsParameters;
+  variation: ClipVariation | null;
+}
+
+const AUDIO_FILE_ACCEPT = 'audio/*,video/*,.mp3,.wav,.ogg,.oga,.opus,.flac,.m4a,.aac,.weba,.aif,.aiff,.caf,.webm,.mp4,.m4v,.mov';
 
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const simulationRef = useRef<CircleSimulation | null>(null);
   const midiPlayerRef = useRef<MidiNotePlayer | null>(null);
+  const audioEngineRef = useRef<AudioEngine | null>(null);
   const [isRunning, setIsRunning] = useState(true);
   const [isRecording, setIsRecording] = useState(false);
-  const [gravity, setGravity] = useState(0.4);
-  const [velocityIncrease, setVelocityIncrease] = useState(0.02);
-  const [velocityDecay, setVelocityDecay] = useState(0.998);
-  const [ballGrowth, setBallGrowth] = useState(0.015);
-  const [batchRecordingCount, setBatchRecordingCount] = useState<string>('1');
-  const [recordingDuration, setRecordingDuration] = useState<string>('10');
-  const [audioSegmentDuration, setAudioSegmentDuration] = useState<string>('0.3');
+  const [gravity, setGravity] = useState(DEFAULT_PROJECT_SETTINGS.physics.gravity);
+  const [velocityIncrease, setVelocityIncrease] = useState(DEFAULT_PROJECT_SETTINGS.physics.velocityIncrease);
+  const [velocityDecay, setVelocityDecay] = useState(DEFAULT_PROJECT_SETTINGS.physics.velocityDecay);
+  const [ballGrowth, setBallGrowth] = useState(DEFAULT_PROJECT_SETTINGS.physics.ballGrowth);
+  const [ballCount, setBallCount] = useState(DEFAULT_PROJECT_SETTINGS.physics.ballCount);
+  const [perBallSound, setPerBallSound] = useState(DEFAULT_PROJECT_SETTINGS.perBallSound);
+  const [containerConfig, setContainerConfig] = useState<ContainerConfig>(DEFAULT_PROJECT_SETTINGS.physics.container);
+  const [endConditions, setEndConditions] = useState<EndConditions>(DEFAULT_PROJECT_SETTINGS.endConditions);
+  const [batchRecordingCount, setBatchRecordingCount] = useState<string>(String(DEFAULT_PROJECT_SETTINGS.recording.batchCount));
+  const [recordingDuration, setRecordingDuration] = useState<string>(String(DEFAULT_PROJECT_SETTINGS.recording.duration));
+  const [audioSegmentDuration, setAudioSegmentDuration] = useState<string>(String(DEFAULT_PROJECT_SETTINGS.audio.segmentDuration));
+  const [segmentationMode, setSegmentationMode] = useState<SegmentationMode>('fixed');
+  const [audioTracks, setAudioTracks] = useState<AudioTrackInfo[]>([]);
+  const [currentTrackId, setCurrentTrackId] = useState<number | null>(null);
+  const [previewTrackId, setPreviewTrackId] = useState<number | null>(null);
+  const [trackSelectionMode, setTrackSelectionMode] = useState<TrackSelectionMode>('random');
+  const [fixedTrackId, setFixedTrackId] = useState<number | null>(null);
+  const [segmentPlayback, setSegmentPlayback] = useState<SegmentPlaybackConfig>(DEFAULT_PROJECT_SETTINGS.audio.playback);
   const [isRecordingBatch, setIsRecordingBatch] = useState(false);
+  const [randomization, setRandomization] = useState<RandomizationConfig>(DEFAULT_PROJECT_SETTINGS.randomization);
+  const [renderMode, setRenderMode] = useState<'realtime' | 'offline'>('realtime');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('webm');
+  const [formatNotice, setFormatNotice] = useState<string | null>(null);
+  const [renderProgress, setRenderProgress] = useState<{ clip: number; total: number; progress: number } | null>(null);
   const [showTextPanel, setShowTextPanel] = useState(false);
   const [showMidiPanel, setShowMidiPanel] = useState(false);
   const [showAudioPanel, setShowAudioPanel] = useState(false);
   const [audioError, setAudioError] = useState<string | null>(null);
   const audioManagerRef = useRef<AudioManager | null>(null);
   const [isProcessingAudio, setIsProcessingAudio] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ name: string; stage: FileImportStage; progress: number }[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [musicBedName, setMusicBedName] = useState<string | null>(null);
+  const [musicBedConfig, setMusicBedConfig] = useState<MusicBedConfig>(DEFAULT_MUSIC_BED);
+  const [masterBusConfig, setMasterBusConfig] = useState<MasterBusConfig>(DEFAULT_MASTER_BUS);
+  const [masterLevels, setMasterLevels] = useState<MasterLevels | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [isProjectBusy, setIsProjectBusy] = useState(false);
+  const [showPresetPanel, setShowPresetPanel] = useState(false);
+  const [presets, setPresets] = useState<PresetInfo[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [lastAutosave, setLastAutosave] = useState<Date | null>(null);
+  const storageRef = useRef<ProjectStorage | null>(null);
+  // Autosave stays off until the previous session has been restored, so it cannot overwrite it
+  const autosaveReadyRef = useRef(false);
+  const buildProjectRef = useRef<(() => Promise<Project>) | null>(null);
+  const fontBlobRef = useRef<{ url: string; blob: Blob } | null>(null);
+  const applyProjectRef = useRef<((project: Project) => Promise<string[]>) | null>(null);
   const [midiNotes, setMidiNotes] = useState('');
+  const [midiFileName, setMidiFileName] = useState<string | null>(null);
+  const [midiFileTracks, setMidiFileTracks] = useState<MidiFileTrack[]>([]);
+  const [selectedMidiTrack, setSelectedMidiTrack] = useState(0);
+  const [midiError, setMidiError] = useState<string | null>(null);
+  const [noteErrors, setNoteErrors] = useState<NoteParseError[]>([]);
+  const [instrument, setInstrument] = useState<InstrumentConfig>(DEFAULT_INSTRUMENT);
+  const [sampleError, setSampleError] = useState<string | null>(null);
+  const [dynamics, setDynamics] = useState<DynamicsConfig>(DEFAULT_DYNAMICS);
+  const [melody, setMelody] = useState<MelodyConfig>(DEFAULT_MELODY);
+  const [seed, setSeed] = useState<number>(0);
+  const [seedInput, setSeedInput] = useState<string>('');
   const [customFont, setCustomFont] = useState('');
   const [textElements, setTextElements] = useState<TextElement[]>([
     {
@@ -42,19 +188,36 @@ function App() {
   ]);
   const recordingCountRef = useRef(0);
   const recordingsRef = useRef<Blob[]>([]);
+  const recordingStopTimeoutRef = useRef<number | null>(null);
 
   useEffect(() => {
     if (!canvasRef.current) return;
     
-    const simulation = new CircleSimulation(canvasRef.current, textElements, () => {
-      audioManagerRef.current?.playNextSegment();
+    // One engine per mount; everything that makes sound is created on it and released with it
+    const engine = new AudioEngine();
+    const audioManager = new AudioManager(engine);
+    const midiPlayer = new MidiNotePlayer(engine);
+    audioEngineRef.current = engine;
+    audioManagerRef.current = audioManager;
+    midiPlayerRef.current = midiPlayer;
+
+    const simulation = new CircleSimulation(canvasRef.current, textElements, engine, (event) => {
+      audioManager.playNextSegment(event);
+      midiPlayer.playNextNote(event);
     });
     simulationRef.current = simulation;
     simulation.start();
 
-    audioManagerRef.current = new AudioManager(simulation.getAudioDestination());
+    audioManager.reset(simulation.getSeed());
+    setSeed(simulation.getSeed());
 
-    return () => simulation.stop();
+    return () => {
+      simulation.stop();
+      simulation.stopRecording();
+      audioManager.dispose();
+      midiPlayer.dispose();
+      engine.close().catch(error => console.error('Failed to close audio:', error));
+    };
   }, []);
 
   useEffect(() => {
@@ -64,12 +227,133 @@ function App() {
   }, [textElements]);
 
   useEffect(() => {
-    if (midiPlayerRef.current && midiNotes) {
-      const notes = midiPlayerRef.current.parseMidiNotes(midiNotes);
-      midiPlayerRef.current.setNotes(notes);
-      midiPlayerRef.current.start();
+    buildProjectRef.current = buildProject;
+    applyProjectRef.current = applyProject;
+  });
+
+  // Restores the autosaved session once the audio objects exist
+  useEffect(() => {
+    if (!ProjectStorage.isSupported()) return;
+    const storage = new ProjectStorage();
+    storageRef.current = storage;
+    let cancelled = false;
+
+    storage.loadSession()
+      .then(project => (project && !cancelled ? applyProjectRef.current?.(project) : undefined))
+      .then(problems => {
+        if (problems && problems.length > 0) setProjectError(problems.join('\n'));
+      })
+      .catch(error => console.error('Failed to restore session:', error))
+      .finally(() => {
+        if (!cancelled) autosaveReadyRef.current = true;
+      });
+    storage.listPresets().then(setPresets).catch(error => console.error('Failed to list presets:', error));
+
+    return () => {
+      cancelled = true;
+      autosaveReadyRef.current = false;
+    };
+  }, []);
+
+  // Autosaves a little after the last settings change; batch runs are left alone until they finish
+  useEffect(() => {
+    if (!autosaveReadyRef.current || isRecordingBatch) return;
+
+    const timeout = setTimeout(async () => {
+      const storage = storageRef.current;
+      const build = buildProjectRef.current;
+      if (!storage || !build) return;
+      try {
+        await storage.saveSession(await build());
+        setLastAutosave(new Date());
+      } catch (error) {
+        console.error('Failed to autosave session:', error);
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [
+    gravity, velocityIncrease, velocityDecay, ballGrowth, ballCount, perBallSound, containerConfig, endConditions,
+    seed, textElements, customFont, midiNotes, midiFileTracks, selectedMidiTrack, instrument, dynamics, melody,
+    audioSegmentDuration, segmentationMode, segmentPlayback, trackSelectionMode, fixedTrackId, audioTracks,
+    musicBedName, musicBedConfig, masterBusConfig, recordingDuration, batchRecordingCount, renderMode, exportFormat,
+    randomization, isRecordingBatch
+  ]);
+
+  useEffect(() => {
+    setSeedInput(seed.toString());
+  }, [seed]);
+
+  useEffect(() => {
+    const duration = parseFloat(audioSegmentDuration);
+    if (isNaN(duration) || duration <= 0) return;
+    const timeout = setTimeout(() => {
+      audioManagerRef.current?.setSegmentDuration(duration);
+    }, RESEGMENT_DELAY);
+    return () => clearTimeout(timeout);
+  }, [audioSegmentDuration]);
+
+  useEffect(() => {
+    if (midiPlayerRef.current) {
+      const midiPlayer = midiPlayerRef.current;
+      const midiTrack = midiFileTracks[selectedMidiTrack];
+
+      if (midiTrack) {
+        // An imported MIDI file takes precedence over typed notes
+        midiPlayer.setNotes(melody.quantize ? quantizeEvents(midiTrack.events, melody) : midiTrack.events);
+        setNoteErrors([]);
+        return;
+      }
+
+      // With per-ball sound, each line of the MIDI panel is the sequence for one ball
+      const results = perBallSound
+        ? midiNotes.split('\n').map((line, index) => {
+            const result = midiPlayer.parseMidiNotes(line);
+            return { ...result, errors: result.errors.map(error => ({ ...error, line: index + 1 })) };
+          })
+        : [midiPlayer.parseMidiNotes(midiNotes)];
+      midiPlayer.setNoteSequences(results.map(result => (melody.quantize ? quantizeEvents(result.events, melody) : result.events)));
+      setNoteErrors(results.flatMap(result => result.errors));
     }
-  }, [midiNotes]);
+  }, [midiNotes, perBallSound, midiFileTracks, selectedMidiTrack, melody]);
+
+  useEffect(() => {
+    midiPlayerRef.current?.setAngleMapping(melody.angleMapping ? melody : null);
+  }, [melody]);
+
+  useEffect(() => {
+    midiPlayerRef.current?.setInstrument(instrument);
+  }, [instrument]);
+
+  useEffect(() => {
+    audioManagerRef.current?.setPlaybackConfig(segmentPlayback);
+  }, [segmentPlayback]);
+
+  useEffect(() => {
+    audioManagerRef.current?.setMusicBedConfig(musicBedConfig);
+  }, [musicBedConfig]);
+
+  useEffect(() => {
+    audioEngineRef.current?.getMasterBus().update(masterBusConfig);
+  }, [masterBusConfig]);
+
+  // Meters are only polled while the audio panel is open
+  useEffect(() => {
+    if (!showAudioPanel) return;
+    const interval = setInterval(() => {
+      const levels = audioEngineRef.current?.getMasterBus().getLevels();
+      if (levels) setMasterLevels(levels);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [showAudioPanel]);
+
+  useEffect(() => {
+    audioManagerRef.current?.setDynamics(dynamics);
+    midiPlayerRef.current?.setDynamics(dynamics);
+  }, [dynamics]);
+
+  useEffect(() => {
+    audioManagerRef.current?.setPerBallRouting(perBallSound);
+  }, [perBallSound]);
 
   useEffect(() => {
     if (customFont) {
@@ -85,21 +369,399 @@ function App() {
   const handlePlayPause = () => {
     if (!simulationRef.current) return;
     
+    // Suspending the context while paused frees the audio device and freezes any ringing sounds
     if (simulationRef.current.isRunning()) {
       simulationRef.current.stop();
+      audioEngineRef.current?.suspend().catch(error => console.error('Failed to suspend audio:', error));
       setIsRunning(false);
     } else {
       simulationRef.current.start();
+      audioEngineRef.current?.resume().catch(error => console.error('Failed to resume audio:', error));
       setIsRunning(true);
     }
   };
 
-  const handleReset = () => {
-    if (!simulationRef.current) return;
-    simulationRef.current.reset();
+  const resetSimulation = (newSeed?: number): number => {
+    if (!simulationRef.current) return seed;
+    simulationRef.current.reset(newSeed);
+    const appliedSeed = simulationRef.current.getSeed();
     if (audioManagerRef.current) {
-      audioManagerRef.current.reset();
+      audioManagerRef.current.reset(appliedSeed);
+    }
+    midiPlayerRef.current?.reset();
+    setSeed(appliedSeed);
+    refreshTracks();
+    return appliedSeed;
+  };
+
+  // AudioManager is not reactive, so the track list is copied into state after every change
+  const refreshTracks = () => {
+    const audioManager = audioManagerRef.current;
+    if (!audioManager) return;
+    setAudioTracks(audioManager.getTracks());
+    setCurrentTrackId(audioManager.getCurrentTrackId());
+  };
+
+  // Browsers only start audio after a user gesture, so unlock it on any interaction
+  const unlockAudio = () => {
+    audioEngineRef.current?.resume().catch(error => {
+      console.error('Failed to start audio:', error);
+    });
+  };
+
+  const handleReset = () => {
+    clearVariation();
+    resetSimulation();
+  };
+
+  const handleSeedInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (value === '' || /^\d+$/.test(value)) {
+      setSeedInput(value);
+    }
+  };
+
+  const handleReplaySeed = () => {
+    const value = Number(seedInput);
+    if (seedInput === '' || isNaN(value)) return;
+    prepareClip(value);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const readAsDataUrl = (blob: Blob) =>
+    new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+  // Collects every setting and the uploaded files they depend on
+  const buildProject = async (): Promise<Project> => {
+    const audioManager = audioManagerRef.current;
+    const midiPlayer = midiPlayerRef.current;
+    const assets: ProjectAssets = new Map();
+
+    const addAsset = (folder: string, index: number, name: string, blob: Blob | null): ProjectAssetRef | null => {
+      if (!blob) return null;
+      const file = getAssetPath(folder, index, name);
+      assets.set(file, blob);
+      return { name, file };
+    };
+
+    const tracks = audioTracks.flatMap((track, index) => {
+      const ref = addAsset('tracks', index, track.name, audioManager?.getTrackSource(track.id) ?? null);
+      return ref ? [{ ...ref, gain: track.gain, startOffset: track.startOffset }] : [];
+    });
+    const samples = instrument.samples.flatMap((sample, index) => {
+      const ref = addAsset('samples', index, sample.name, midiPlayer?.getSampleSource(sample.name) ?? null);
+      return ref ? [ref] : [];
+    });
+    const musicBed = musicBedName
+      ? addAsset('music-bed', 0, musicBedName, audioManager?.getMusicBedSource() ?? null)
+      : null;
+
+    let customFontRef: (ProjectAssetRef & { type: string }) | null = null;
+    if (customFont) {
+      // Reused while the font is unchanged so autosave does not store a new copy each time
+      const fontBlob = fontBlobRef.current?.url === customFont
+        ? fontBlobRef.current.blob
+        : await (await fetch(customFont)).blob();
+      fontBlobRef.current = { url: customFont, blob: fontBlob };
+      const ref = addAsset('fonts', 0, CUSTOM_FONT_REFERENCE, fontBlob);
+      customFontRef = ref && { ...ref, type: fontBlob.type };
     }
+
+    const fixedTrackIndex = audioTracks.findIndex(track => track.id === fixedTrackId);
+    const midiTrackSelection = midiFileName
+      ? { name: midiFileName, tracks: midiFileTracks, selectedTrack: selectedMidiTrack }
+      : null;
+
+    return {
+      settings: {
+        physics: { gravity, velocityIncrease, velocityDecay, ballGrowth, ballCount, container: containerConfig },
+        perBallSound,
+        endConditions,
+        seed,
+        text: {
+          elements: textElements.map(text => ({
+            ...text,
+            isDragging: false,
+            font: customFont && text.font === customFont ? CUSTOM_FONT_REFERENCE : text.font
+          })),
+          customFont: customFontRef
+        },
+        midi: { notes: midiNotes, file: midiTrackSelection, instrument, samples, dynamics, melody },
+        audio: {
+          segmentDuration: parseFloat(audioSegmentDuration) || DEFAULT_PROJECT_SETTINGS.audio.segmentDuration,
+          segmentationMode,
+          playback: segmentPlayback,
+          selectionMode: trackSelectionMode,
+          fixedTrackIndex: fixedTrackIndex >= 0 ? fixedTrackIndex : null,
+          tracks,
+          musicBed,
+          musicBedConfig,
+          masterBus: masterBusConfig
+        },
+        recording: {
+          duration: Number(recordingDuration) || DEFAULT_PROJECT_SETTINGS.recording.duration,
+          batchCount: Number(batchRecordingCount) || DEFAULT_PROJECT_SETTINGS.recording.batchCount,
+          renderMode,
+          exportFormat
+        },
+        randomization
+      },
+      assets
+    };
+  };
+
+  // Replaces the whole session with a project. Files missing from the project or that fail to
+  // decode are skipped and listed in the returned messages.
+  const applyProject = async ({ settings, assets }: Project): Promise<string[]> => {
+    const simulation = simulationRef.current;
+    const audioManager = audioManagerRef.current;
+    const midiPlayer = midiPlayerRef.current;
+    if (!simulation || !audioManager || !midiPlayer) return [];
+
+    const problems: string[] = [];
+    const assetFile = (ref: ProjectAssetRef): File | null => {
+      const blob = assets.get(ref.file);
+      if (!blob) {
+        problems.push(`${ref.name} is missing from the project.`);
+        return null;
+      }
+      // Storage hands back the stored File; keeping that object lets autosave skip rewriting it
+      return blob instanceof File && blob.name === ref.name ? blob : new File([blob], ref.name, { type: blob.type });
+    };
+
+    const { physics } = settings;
+    setGravity(physics.gravity);
+    simulation.setGravity(physics.gravity);
+    setVelocityIncrease(physics.velocityIncrease);
+    simulation.setVelocityIncrease(physics.velocityIncrease);
+    setVelocityDecay(physics.velocityDecay);
+    simulation.setVelocityDecay(physics.velocityDecay);
+    setBallGrowth(physics.ballGrowth);
+    simulation.setBallGrowthRate(physics.ballGrowth);
+    simulation.setFirstBallStart(null);
+    simulation.setColorOverride(null);
+    setBallCount(physics.ballCount);
+    simulation.setBallCount(physics.ballCount);
+    setContainerConfig(physics.container);
+    simulation.setContainer(physics.container);
+    setEndConditions(settings.endConditions);
+    simulation.setEndConditions(settings.endConditions);
+    setPerBallSound(settings.perBallSound);
+
+    let fontUrl = '';
+    if (settings.text.customFont) {
+      const fontFile = assetFile(settings.text.customFont);
+      if (fontFile) {
+        fontUrl = await readAsDataUrl(new Blob([fontFile], { type: settings.text.customFont.type }));
+        fontBlobRef.current = { url: fontUrl, blob: fontFile };
+      }
+    }
+    setCustomFont(fontUrl);
+    setTextElements(settings.text.elements.map(text => (
+      text.font === CUSTOM_FONT_REFERENCE ? { ...text, font: fontUrl || 'Arial' } : text
+    )));
+
+    setMidiNotes(settings.midi.notes);
+    setMidiError(null);
+    setMidiFileTracks(settings.midi.file?.tracks ?? []);
+    setSelectedMidiTrack(settings.midi.file?.selectedTrack ?? 0);
+    setMidiFileName(settings.midi.file?.name ?? null);
+
+    const loadedSamples = new Set<string>();
+    for (const ref of settings.midi.samples) {
+      const file = assetFile(ref);
+      const sample = settings.midi.instrument.samples.find(entry => entry.name === ref.name);
+      if (!file || !sample) continue;
+      try {
+        await midiPlayer.addSample(file, sample.note);
+        loadedSamples.add(sample.name);
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : `Failed to load ${ref.name}.`);
+      }
+    }
+    setInstrument({
+      ...settings.midi.instrument,
+      samples: settings.midi.instrument.samples.filter(sample => loadedSamples.has(sample.name))
+    });
+    setSampleError(null);
+    setDynamics(settings.midi.dynamics);
+    setMelody(settings.midi.melody);
+
+    const { audio } = settings;
+    audioManager.clearSegments();
+    audioManager.removeMusicBed();
+    setPreviewTrackId(null);
+    setAudioError(null);
+    setImportProgress([]);
+    setAudioSegmentDuration(String(audio.segmentDuration));
+    audioManager.setSegmentDuration(audio.segmentDuration);
+    setSegmentationMode(audio.segmentationMode);
+    audioManager.setSegmentationMode(audio.segmentationMode);
+    setSegmentPlayback(audio.playback);
+
+    const trackIds: number[] = [];
+    for (const track of audio.tracks) {
+      const file = assetFile(track);
+      if (!file) continue;
+      try {
+        const id = await audioManager.processAudioFile(file);
+        audioManager.setTrackGain(id, track.gain);
+        audioManager.setTrackStartOffset(id, track.startOffset);
+        trackIds.push(id);
+      } catch (error) {
+        problems.push(error instanceof Error ? error.message : `Failed to load ${track.name}.`);
+      }
+    }
+    handleTrackSelectionChange(
+      audio.selectionMode,
+      audio.fixedTrackIndex !== null ? trackIds[audio.fixedTrackIndex] ?? null : null
+    );
+
+    if (audio.musicBed) {
+      const file = assetFile(audio.musicBed);
+      if (file) {
+        await audioManager.loadMusicBed(file).catch(error => {
+          problems.push(error instanceof Error ? error.message : `Failed to load ${file.name}.`);
+        });
+      }
+    }
+    setMusicBedName(audioManager.getMusicBedName());
+    setMusicBedConfig(audio.musicBedConfig);
+    setMasterBusConfig(audio.masterBus);
+
+    setRecordingDuration(String(settings.recording.duration));
+    setBatchRecordingCount(String(settings.recording.batchCount));
+    setRenderMode(settings.recording.renderMode);
+    setExportFormat(settings.recording.exportFormat);
+    setRandomization(settings.randomization);
+
+    resetSimulation(settings.seed);
+    return problems;
+  };
+
+  const handleSaveProject = async () => {
+    setProjectError(null);
+    setIsProjectBusy(true);
+    try {
+      downloadBlob(await createProjectArchive(await buildProject()), getProjectFileName());
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      setProjectError(error instanceof Error ? error.message : 'Failed to save project.');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const handleLoadProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setProjectError(null);
+    setIsProjectBusy(true);
+    try {
+      const problems = await applyProject(await readProjectArchive(file));
+      if (problems.length > 0) {
+        setProjectError(problems.join('\n'));
+      }
+    } catch (error) {
+      console.error('Failed to load project:', error);
+      setProjectError(error instanceof Error ? error.message : 'Failed to load project.');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const refreshPresets = async () => {
+    setPresets(await storageRef.current?.listPresets() ?? []);
+  };
+
+  const handleSavePreset = async () => {
+    const storage = storageRef.current;
+    const name = presetName.trim();
+    if (!storage || !name) return;
+    if (presets.some(preset => preset.name === name) && !window.confirm(`Replace the preset "${name}"?`)) return;
+
+    setProjectError(null);
+    setIsProjectBusy(true);
+    try {
+      await storage.savePreset(name, await buildProject());
+      setPresetName('');
+      await refreshPresets();
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+      setProjectError(error instanceof Error ? error.message : 'Failed to save preset.');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const handleLoadPreset = async (name: string) => {
+    const storage = storageRef.current;
+    if (!storage) return;
+
+    setProjectError(null);
+    setIsProjectBusy(true);
+    try {
+      const project = await storage.loadPreset(name);
+      if (!project) {
+        throw new Error(`The preset "${name}" no longer exists.`);
+      }
+      const problems = await applyProject(project);
+      if (problems.length > 0) {
+        setProjectError(problems.join('\n'));
+      }
+    } catch (error) {
+      console.error('Failed to load preset:', error);
+      setProjectError(error instanceof Error ? error.message : 'Failed to load preset.');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const handleDeletePreset = async (name: string) => {
+    const storage = storageRef.current;
+    if (!storage || !window.confirm(`Delete the preset "${name}"?`)) return;
+
+    try {
+      await storage.deletePreset(name);
+      await refreshPresets();
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+      setProjectError(error instanceof Error ? error.message : 'Failed to delete preset.');
+    }
+  };
+
+  // Falls back to WebM when the browser cannot record the chosen format
+  const resolveRecorderFormat = (): ExportFormat => {
+    if (exportFormat !== 'webm' && !getRecorderMimeType(exportFormat)) {
+      setFormatNotice(`${EXPORT_FORMATS[exportFormat].label} não é suportado para gravação em tempo real neste navegador. Gravando em WebM.`);
+      return 'webm';
+    }
+    setFormatNotice(null);
+    return exportFormat;
+  };
+
+  const resolveOfflineFormat = async (renderer: OfflineRenderer): Promise<ExportFormat> => {
+    if (exportFormat !== 'webm' && !(await renderer.isFormatSupported(exportFormat))) {
+      setFormatNotice(`${EXPORT_FORMATS[exportFormat].label} não é suportado para renderização offline neste navegador. Renderizando em WebM.`);
+      return 'webm';
+    }
+    setFormatNotice(null);
+    return exportFormat;
   };
 
   const handleRecording = async () => {
@@ -107,24 +769,27 @@ function App() {
 
     if (!isRecording) {
       try {
-        const audioStream = audioManagerRef.current?.getAudioStream();
+        const recordingSeed = simulationRef.current.getSeed();
+        const format = resolveRecorderFormat();
         
         simulationRef.current.startRecording((blob) => {
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `simulation-${Date.now()}.webm`;
-          a.click();
-          URL.revokeObjectURL(url);
-        }, audioStream);
+          downloadBlob(blob, `simulation-seed-${recordingSeed}-${Date.now()}.${EXPORT_FORMATS[format].extension}`);
+        }, format);
+        audioManagerRef.current?.startMusicBed();
         
         setIsRecording(true);
       } catch (error) {
         console.error('Failed to start recording:', error);
       }
     } else {
-      simulationRef.current.stopRecording();
-      setIsRecording(false);
+      if (recordingStopTimeoutRef.current !== null) return;
+      // Keep recording until the music bed has faded out
+      const fade = audioManagerRef.current?.fadeOutMusicBed() ?? 0;
+      recordingStopTimeoutRef.current = window.setTimeout(() => {
+        recordingStopTimeoutRef.current = null;
+        simulationRef.current?.stopRecording();
+        setIsRecording(false);
+      }, fade * 1000);
     }
   };
 
@@ -160,32 +825,173 @@ function App() {
     }
   };
 
-  const handleAudioUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || !audioManagerRef.current) return;
+  const handleBallCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    setBallCount(value);
+    if (simulationRef.current) {
+      simulationRef.current.setBallCount(value);
+      // Rebuild the balls from the current seed so the run stays reproducible
+      resetSimulation(simulationRef.current.getSeed());
+    }
+  };
+
+  const updateContainer = (updates: Partial<ContainerConfig>) => {
+    const config = { ...containerConfig, ...updates };
+    setContainerConfig(config);
+    if (simulationRef.current) {
+      simulationRef.current.setContainer(config);
+    }
+  };
+
+  const updateEndConditions = (updates: Partial<EndConditions>) => {
+    const conditions = { ...endConditions, ...updates };
+    setEndConditions(conditions);
+    if (simulationRef.current) {
+      simulationRef.current.setEndConditions(conditions);
+    }
+  };
+
+  // Imports files one at a time so a file that fails to decode does not stop the rest
+  const importAudioFiles = async (files: File[]) => {
+    const manager = audioManagerRef.current;
+    if (!manager || files.length === 0 || isProcessingAudio) return;
+
+    const mediaFiles = files.filter(file => manager.isSupportedMediaFile(file));
+    const errors: string[] = [];
+    if (mediaFiles.length < files.length) {
+      errors.push(`${files.length - mediaFiles.length} file(s) skipped: not audio or video.`);
+    }
+
+    const available = Math.max(0, manager.getMaxTracks() - manager.getTracksCount());
+    const accepted = mediaFiles.slice(0, available);
+    if (mediaFiles.length > available) {
+      errors.push(`Only ${manager.getMaxTracks()} tracks maximum allowed. Some files were not processed.`);
+    }
 
     setAudioError(null);
     setIsProcessingAudio(true);
+    setImportProgress(accepted.map(file => ({ name: file.name, stage: 'reading', progress: 0 })));
 
-    try {
-      const maxTracks = audioManagerRef.current.getMaxTracks();
-      const currentTracks = audioManagerRef.current.getTracksCount();
-      
-      for (let i = 0; i < files.length && currentTracks + i < maxTracks; i++) {
-        await audioManagerRef.current.processAudioFile(files[i]);
-      }
-      
-      if (currentTracks + files.length > maxTracks) {
-        setAudioError(`Only ${maxTracks} tracks maximum allowed. Some files were not processed.`);
+    for (let i = 0; i < accepted.length; i++) {
+      try {
+        await manager.processAudioFile(accepted[i], ({ stage, progress }) => {
+          setImportProgress(current => current.map((entry, index) => (index === i ? { ...entry, stage, progress } : entry)));
+        });
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `Failed to process ${accepted[i].name}`);
       }
-      
-      setIsProcessingAudio(false);
+      refreshTracks();
+    }
+
+    setIsProcessingAudio(false);
+    setAudioError(errors.length > 0 ? errors.join('\n') : null);
+  };
+
+  const handleAudioUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files) return;
+    await importAudioFiles(Array.from(files));
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    setShowAudioPanel(true);
+    importAudioFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleMusicBedUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const manager = audioManagerRef.current;
+    if (!file || !manager) return;
+
+    setAudioError(null);
+    try {
+      await manager.loadMusicBed(file);
     } catch (error) {
-      setAudioError(error.message);
-      setIsProcessingAudio(false);
+      setAudioError(error instanceof Error ? error.message : 'Failed to load music bed.');
     }
+    setMusicBedName(manager.getMusicBedName());
+    e.target.value = '';
   };
 
+  const handleRemoveMusicBed = () => {
+    audioManagerRef.current?.removeMusicBed();
+    setMusicBedName(null);
+  };
+
+  const updateMusicBed = (changes: Partial<MusicBedConfig>) => {
+    setMusicBedConfig(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateMasterBus = <K extends keyof MasterBusConfig>(key: K, value: MasterBusConfig[K]) => {
+    setMasterBusConfig(prev => ({ ...prev, [key]: value }));
+  };
+
+  const meterWidth = (db: number) =>
+    `${Math.round(Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB)) * 100)}%`;
+
+  const formatDecibels = (db: number) => (db === -Infinity ? '-∞' : db.toFixed(1));
+
+  const handleRemoveTrack = (id: number) => {
+    if (previewTrackId === id) {
+      audioManagerRef.current?.stopPreview();
+    }
+    audioManagerRef.current?.removeTrack(id);
+    if (fixedTrackId === id) {
+      handleTrackSelectionChange(trackSelectionMode, null);
+    }
+    refreshTracks();
+  };
+
+  const handleMoveTrack = (id: number, direction: -1 | 1) => {
+    audioManagerRef.current?.moveTrack(id, direction);
+    refreshTracks();
+  };
+
+  const handleTrackGainChange = (id: number, gain: number) => {
+    audioManagerRef.current?.setTrackGain(id, gain);
+    refreshTracks();
+  };
+
+  const handleTrackStartOffsetChange = (id: number, startOffset: number) => {
+    audioManagerRef.current?.setTrackStartOffset(id, startOffset);
+    refreshTracks();
+  };
+
+  const handlePreviewTrack = (id: number) => {
+    const audioManager = audioManagerRef.current;
+    if (!audioManager) return;
+
+    if (previewTrackId === id) {
+      audioManager.stopPreview();
+      setPreviewTrackId(null);
+      return;
+    }
+    audioManager.previewTrack(id, () => {
+      setPreviewTrackId(current => (current === id ? null : current));
+    });
+    setPreviewTrackId(id);
+  };
+
+  const handleTrackSelectionChange = (mode: TrackSelectionMode, trackId: number | null) => {
+    setTrackSelectionMode(mode);
+    setFixedTrackId(trackId);
+    audioManagerRef.current?.setTrackSelectionMode(mode, trackId);
+    refreshTracks();
+  };
+
+  const formatTrackDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
   const addNewText = () => {
     const newText: TextElement = {
       id: Date.now().toString(),
@@ -265,6 +1071,96 @@ function App() {
     );
   };
 
+  const handleMidiFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMidiError(null);
+    try {
+      const tracks = parseMidiFile(await file.arrayBuffer());
+      if (tracks.length === 0) {
+        throw new Error('The MIDI file does not contain any notes.');
+      }
+      setMidiFileTracks(tracks);
+      setSelectedMidiTrack(0);
+      setMidiFileName(file.name);
+    } catch (error) {
+      setMidiError(error instanceof Error ? error.message : 'Failed to read MIDI file.');
+    }
+  };
+
+  const clearMidiFile = () => {
+    setMidiFileTracks([]);
+    setSelectedMidiTrack(0);
+    setMidiFileName(null);
+  };
+
+  const updateInstrument = (updates: Partial<InstrumentConfig>) => {
+    setInstrument(prev => ({ ...prev, ...updates }));
+  };
+
+  const updateMelody = (updates: Partial<MelodyConfig>) => {
+    setMelody(prev => ({ ...prev, ...updates }));
+  };
+
+  // Generated melodies are written to the notes field so they can be edited afterwards;
+  // the current seed makes random walks reproducible
+  const handleGenerateMelody = () => {
+    const events = generateMelody(melody, new SeededRandom(seed));
+    clearMidiFile();
+    setMidiNotes(formatNoteSequence(events));
+  };
+
+  const updateEnvelope = (updates: Partial<EnvelopeConfig>) => {
+    setInstrument(prev => ({ ...prev, envelope: { ...prev.envelope, ...updates } }));
+  };
+
+  const updateDynamics = (target: DynamicsTarget, updates: Partial<DynamicsMapping>) => {
+    setDynamics(prev => ({ ...prev, [target]: { ...prev[target], ...updates } }));
+  };
+
+  const handleSampleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || !midiPlayerRef.current) return;
+
+    setSampleError(null);
+    try {
+      const added: InstrumentSample[] = [];
+      for (const file of Array.from(files)) {
+        added.push(await midiPlayerRef.current.addSample(file, 'C4'));
+      }
+      const names = new Set(added.map(sample => sample.name));
+      setInstrument(prev => ({
+        ...prev,
+        samples: [...prev.samples.filter(sample => !names.has(sample.name)), ...added]
+      }));
+    } catch (error) {
+      setSampleError(error instanceof Error ? error.message : 'Failed to load sample.');
+    }
+    e.target.value = '';
+  };
+
+  const updateSampleNote = (name: string, value: string) => {
+    const { events, errors } = parseNoteSequence(value);
+    const note = events[0]?.notes[0]?.name;
+    if (errors.length > 0 || events.length !== 1 || events[0].notes.length !== 1 || !note) {
+      setSampleError(`"${value}" is not a single note.`);
+      return;
+    }
+
+    setSampleError(null);
+    setInstrument(prev => ({
+      ...prev,
+      samples: prev.samples.map(sample => (sample.name === name ? { ...sample, note } : sample))
+    }));
+  };
+
+  const removeSample = (name: string) => {
+    midiPlayerRef.current?.removeSample(name);
+    setInstrument(prev => ({ ...prev, samples: prev.samples.filter(sample => sample.name !== name) }));
+  };
+
   const handleCustomFontUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -295,11 +1191,158 @@ function App() {
     const value = e.target.value;
     if (value === '' || /^\d*\.?\d*$/.test(value)) {
       setAudioSegmentDuration(value);
-      const numValue = parseFloat(value);
-      if (!isNaN(numValue) && numValue > 0) {
-        if (audioManagerRef.current) {
-          audioManagerRef.current.setSegmentDuration(numValue);
-        }
+    }
+  };
+
+  const handleSegmentationModeChange = (mode: SegmentationMode) => {
+    setSegmentationMode(mode);
+    audioManagerRef.current?.setSegmentationMode(mode);
+  };
+
+  const getClipFileName = (clipNumber: number, clipSeed: number, format: ExportFormat) =>
+    `simulation-${clipNumber}-seed-${clipSeed}.${EXPORT_FORMATS[format].extension}`;
+
+  const createManifestEntry = (
+    fileName: string,
+    clip: PreparedClip,
+    duration: number,
+    format: ExportFormat,
+    endEvent: EndEvent | null
+  ): ClipManifestEntry => ({
+    fileName,
+    seed: clip.seed,
+    duration,
+    format,
+    physics: clip.physics,
+    audioTrack: audioManagerRef.current?.getCurrentTrackName() ?? null,
+    ballAudioTracks: audioManagerRef.current?.getBallTrackNames(clip.physics.ballCount) ?? [],
+    noteSequences: midiPlayerRef.current?.getNoteSequences() ?? [],
+    instrument,
+    dynamics,
+    melody,
+    musicBed: musicBedName ? { name: musicBedName, ...musicBedConfig } : null,
+    masterBus: masterBusConfig,
+    variation: clip.variation,
+    endReason: endEvent?.reason ?? null
+  });
+
+  // Resets the simulation to `clipSeed` (a new seed when omitted), with the parameters the seed draws
+  // from the randomization ranges when any are enabled. Batch clips and replayed seeds both go
+  // through here, so a clip's seed is enough to run it again.
+  const prepareClip = (clipSeed: number = SeededRandom.generateSeed()): PreparedClip => {
+    const simulation = simulationRef.current;
+    const basePhysics: PhysicsParameters = {
+      gravity, velocityIncrease, velocityDecay, ballGrowth, ballCount, container: containerConfig
+    };
+    if (!simulation || !isRandomizationEnabled(randomization)) {
+      clearVariation();
+      return { seed: resetSimulation(clipSeed), physics: basePhysics, variation: null };
+    }
+
+    const variation = sampleVariation(randomization, clipSeed);
+    const physics = applyVariation(basePhysics, variation);
+    simulation.setGravity(physics.gravity);
+    simulation.setVelocityIncrease(physics.velocityIncrease);
+    simulation.setVelocityDecay(physics.velocityDecay);
+    simulation.setBallGrowthRate(physics.ballGrowth);
+    simulation.setFirstBallStart(getBallStart(variation));
+    simulation.setColorOverride(variation.color);
+    return { seed: resetSimulation(clipSeed), physics, variation };
+  };
+
+  // Puts the panel's settings back after a batch or replay that randomized them
+  const clearVariation = () => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+    simulation.setGravity(gravity);
+    simulation.setVelocityIncrease(velocityIncrease);
+    simulation.setVelocityDecay(velocityDecay);
+    simulation.setBallGrowthRate(ballGrowth);
+    simulation.setFirstBallStart(null);
+    simulation.setColorOverride(null);
+  };
+
+  const updateRandomRange = (parameter: RandomizedParameter, updates: Partial<ParameterRange>) => {
+    setRandomization(prev => ({
+      ...prev,
+      ranges: { ...prev.ranges, [parameter]: { ...prev.ranges[parameter], ...updates } }
+    }));
+  };
+
+  const updatePalette = (updates: Partial<RandomizationConfig['palette']>) => {
+    setRandomization(prev => ({ ...prev, palette: { ...prev.palette, ...updates } }));
+  };
+
+  // Resolves after `maxDuration` seconds, or earlier once an end condition fires and the end card has shown
+  const waitForClipEnd = (maxDuration: number) =>
+    new Promise<{ duration: number; endEvent: EndEvent | null }>((resolve) => {
+      const simulation = simulationRef.current;
+      const startedAt = performance.now();
+      let endEvent: EndEvent | null = null;
+      let finished = false;
+
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timeout);
+        simulation?.setOnEnd(undefined);
+        resolve({ duration: Math.min((performance.now() - startedAt) / 1000, maxDuration), endEvent });
+      };
+
+      const timeout = setTimeout(finish, maxDuration * 1000);
+      simulation?.setOnEnd((event) => {
+        endEvent = event;
+        // The clip ends with the end card, so the bed fades out over it
+        audioManagerRef.current?.fadeOutMusicBed(END_CARD_DURATION);
+        setTimeout(finish, END_CARD_DURATION * 1000);
+      });
+    });
+
+  const downloadArchive = async (archive: BatchArchive) => {
+    if (archive.getClipCount() === 0) return;
+    const zipBlob = await archive.generate();
+    downloadBlob(zipBlob, archive.getFileName());
+  };
+
+  const renderOfflineBatch = async (duration: number, count: number) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    const wasRunning = simulation.isRunning();
+    simulation.stop();
+    const renderer = new OfflineRenderer(simulation, audioManagerRef.current, midiPlayerRef.current);
+    const archive = new BatchArchive();
+
+    try {
+      const format = await resolveOfflineFormat(renderer);
+
+      for (let i = 0; i < count; i++) {
+        const clip = prepareClip();
+        const fileName = getClipFileName(i + 1, clip.seed, format);
+        const result = await renderer.render({
+          duration,
+          endCardDuration: END_CARD_DURATION,
+          format,
+          onProgress: (progress) => setRenderProgress({ clip: i + 1, total: count, progress })
+        });
+        archive.addClip(result.blob, createManifestEntry(fileName, clip, result.duration, format, result.endEvent));
+        recordingCountRef.current++;
+      }
+    } catch (error) {
+      console.error('Failed to render batch:', error);
+      alert(error instanceof Error ? error.message : 'Failed to render batch.');
+    }
+
+    try {
+      await downloadArchive(archive);
+    } catch (error) {
+      console.error('Failed to create batch archive:', error);
+    } finally {
+      clearVariation();
+      setRenderProgress(null);
+      setIsRecordingBatch(false);
+      if (wasRunning) {
+        simulation.start();
       }
     }
   };
@@ -318,39 +1361,59 @@ function App() {
     setIsRecordingBatch(true);
     recordingCountRef.current = 0;
 
+    if (renderMode === 'offline') {
+      await renderOfflineBatch(duration, count);
+      return;
+    }
+
+    const format = resolveRecorderFormat();
+    const archive = new BatchArchive();
+    const pendingClips: Promise<void>[] = [];
+
+    const finishBatch = async () => {
+      try {
+        await Promise.all(pendingClips);
+        await downloadArchive(archive);
+      } catch (error) {
+        console.error('Failed to create batch archive:', error);
+      }
+      clearVariation();
+      setIsRecordingBatch(false);
+    };
+
     const recordNextSimulation = async () => {
       if (recordingCountRef.current >= count) {
-        setIsRecordingBatch(false);
+        await finishBatch();
         return;
       }
 
       try {
-        simulationRef.current?.reset();
-        if (audioManagerRef.current) {
-          audioManagerRef.current.reset();
-        }
+        const clip = prepareClip();
 
         const currentRecordingNumber = recordingCountRef.current + 1;
-        const audioStream = audioManagerRef.current?.getAudioStream();
+        const fileName = getClipFileName(currentRecordingNumber, clip.seed, format);
         
-        simulationRef.current?.startRecording(async (blob) => {
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `simulation-${currentRecordingNumber}.webm`;
-          a.click();
-          
-          URL.revokeObjectURL(url);
-          
-          setTimeout(() => {
-            blob = null;
-          }, 100);
-        }, audioStream);
+        // MediaRecorder delivers the blob asynchronously after stop
+        const clipBlob = new Promise<Blob | null>((resolve) => {
+          try {
+            simulationRef.current?.startRecording(resolve, format);
+            audioManagerRef.current?.startMusicBed(duration);
+          } catch (error) {
+            console.error('Failed to start recording:', error);
+            resolve(null);
+          }
+        });
         
-        await new Promise(resolve => setTimeout(resolve, duration * 1000));
+        const { duration: clipDuration, endEvent } = await waitForClipEnd(duration);
         
         simulationRef.current?.stopRecording();
+        audioManagerRef.current?.stopMusicBed();
         recordingCountRef.current++;
+
+        const entry = createManifestEntry(fileName, clip, clipDuration, format, endEvent);
+        pendingClips.push(clipBlob.then((blob) => {
+          if (blob) archive.addClip(blob, entry);
+        }));
         
         await new Promise(resolve => setTimeout(resolve, 500));
         
@@ -359,7 +1422,7 @@ function App() {
         }, 500);
       } catch (error) {
         console.error('Failed to record batch:', error);
-        setIsRecordingBatch(false);
+        await finishBatch();
       }
     };
 
@@ -367,16 +1430,22 @@ function App() {
   };
 
   return (
-    <div className="min-h-screen bg-black flex flex-col items-center justify-center relative">
+    <div
+      className="min-h-screen bg-black flex flex-col items-center justify-center relative"
+      onPointerDown={unlockAudio}
+    >
       <canvas 
         ref={canvasRef}
         width={1080}
         height={1920}
-        className="max-h-screen w-auto cursor-move"
+        className={`max-h-screen w-auto cursor-move ${isDraggingFiles ? 'outline-dashed outline-4 outline-white/60' : ''}`}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDraggingFiles(false)}
+        onDrop={handleDrop}
       />
       
       <div className="absolute top-4 right-4 bg-white/10 backdrop-blur-sm p-4 rounded-lg space-y-4">
@@ -425,8 +1494,95 @@ function App() {
           >
             <Music2 className="w-6 h-6 text-white" />
           </button>
+          <button
+            onClick={handleSaveProject}
+            disabled={isProjectBusy || isRecordingBatch}
+            title="Save project"
+            className="p-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-6 h-6 text-white" />
+          </button>
+          <label
+            title="Open project"
+            className="relative p-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors cursor-pointer"
+          >
+            <FolderOpen className="w-6 h-6 text-white" />
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleLoadProject}
+              disabled={isProjectBusy || isRecordingBatch}
+              className="absolute inset-0 opacity-0 cursor-pointer"
+            />
+          </label>
+          <button
+            onClick={() => setShowPresetPanel(!showPresetPanel)}
+            title="Presets"
+            className="p-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+          >
+            <Bookmark className="w-6 h-6 text-white" />
+          </button>
         </div>
 
+        {showPresetPanel && (
+          <div className="space-y-2 border-t border-white/20 pt-4">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+                placeholder="Preset name"
+                className="flex-1 min-w-0 bg-white/20 text-white rounded px-2 py-1 text-sm"
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!storageRef.current || !presetName.trim() || isProjectBusy}
+                className="px-3 py-1 rounded bg-white/20 hover:bg-white/30 text-white text-sm disabled:opacity-50"
+              >
+                Save preset
+              </button>
+            </div>
+            {presets.length === 0 ? (
+              <p className="text-white/60 text-xs">No presets yet. Presets keep every setting, audio file and font.</p>
+            ) : (
+              <ul className="space-y-1">
+                {presets.map(preset => (
+                  <li key={preset.name} className="flex items-center gap-2 bg-white/10 rounded px-2 py-1">
+                    <button
+                      onClick={() => handleLoadPreset(preset.name)}
+                      disabled={isProjectBusy || isRecordingBatch}
+                      className="flex-1 min-w-0 text-left text-white text-sm truncate hover:text-blue-400 disabled:opacity-50"
+                      title={`Saved ${new Date(preset.savedAt).toLocaleString()}`}
+                    >
+                      {preset.name}
+                    </button>
+                    <button
+                      onClick={() => handleDeletePreset(preset.name)}
+                      className="text-white hover:text-red-500"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-white/60 text-xs">
+              {!storageRef.current
+                ? 'This browser has no IndexedDB, so autosave and presets are off.'
+                : lastAutosave
+                  ? `Session autosaved at ${lastAutosave.toLocaleTimeString()}`
+                  : 'The session is autosaved in this browser.'}
+            </p>
+          </div>
+        )}
+
+        {projectError && (
+          <div className="text-red-500 text-sm bg-red-500/10 p-2 rounded whitespace-pre-line max-w-xs">
+            {projectError}
+          </div>
+        )}
+
         {showTextPanel && (
           <div className="space-y-4 border-t border-white/20 pt-4">
             <button
@@ -516,17 +1672,303 @@ function App() {
 
         {showMidiPanel && (
           <div className="space-y-4 border-t border-white/20 pt-4">
+            <div>
+              <label className="text-white text-sm block mb-1">MIDI File</label>
+              <input
+                type="file"
+                accept=".mid,.midi,audio/midi"
+                onChange={handleMidiFileUpload}
+                className="text-white text-sm"
+              />
+              {midiFileName && (
+                <div className="mt-2 space-y-1">
+                  <div className="flex justify-between items-center">
+                    <span className="text-white text-sm truncate">{midiFileName}</span>
+                    <button
+                      onClick={clearMidiFile}
+                      className="text-white hover:text-red-500"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <select
+                    value={selectedMidiTrack}
+                    onChange={(e) => setSelectedMidiTrack(Number(e.target.value))}
+                    className="bg-white/20 text-white rounded px-2 py-1 w-full"
+                  >
+                    {midiFileTracks.map((track, index) => (
+                      <option key={index} value={index}>
+                        {track.name} ({track.instrument}, {track.noteCount} notes)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {midiError && (
+                <div className="text-red-500 text-sm bg-red-500/10 p-2 rounded mt-2">
+                  {midiError}
+                </div>
+              )}
+            </div>
+
             <div>
               <label className="text-white text-sm block mb-1">MIDI Notes</label>
               <textarea
                 value={midiNotes}
                 onChange={(e) => setMidiNotes(e.target.value)}
+                disabled={midiFileTracks.length > 0}
                 placeholder="Enter notes like: C5,D5,E5,F5"
-                className="w-full bg-white/20 text-white rounded px-2 py-1 h-24"
+                className={`w-full bg-white/20 text-white rounded px-2 py-1 h-24 ${noteErrors.length > 0 ? 'ring-1 ring-red-500' : ''}`}
               />
               <p className="text-white/60 text-xs mt-1">
-                Format: C5,Cs5,D5,Ds5,E5,F5,Fs5,G5,Gs5,A5,As5,B5
+                Notes: C5, Cs5, C#5, Db5 or MIDI numbers (72). Chords: [C4 E4 G4]. Rest: r. Duration: C4:4n, [C4 E4]:2n, 60:0.5
               </p>
+              {noteErrors.length > 0 && (
+                <div className="text-red-500 text-sm bg-red-500/10 p-2 rounded mt-2 space-y-2">
+                  {noteErrors.slice(0, 5).map((error, index) => {
+                    const line = midiNotes.split('\n')[error.line - 1] ?? '';
+                    const start = error.column - 1;
+                    return (
+                      <div key={index}>
+                        <div>Line {error.line}, column {error.column}: {error.message}</div>
+                        <pre className="text-white/80 text-xs font-mono whitespace-pre-wrap">
+                          {line.slice(0, start)}
+                          <span className="bg-red-500/40 underline decoration-red-500">
+                            {line.slice(start, start + error.length)}
+                          </span>
+                          {line.slice(start + error.length)}
+                        </pre>
+                      </div>
+                    );
+                  })}
+                  {noteErrors.length > 5 && (
+                    <div>{noteErrors.length - 5} more errors</div>
+                  )}
+                </div>
+              )}
+              {perBallSound && (
+                <p className="text-white/60 text-xs mt-1">
+                  One line per ball
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-white text-sm block">Melody Generator</label>
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={melody.key}
+                  onChange={(e) => updateMelody({ key: e.target.value })}
+                  className="bg-white/20 text-white rounded px-2 py-1 text-sm"
+                >
+                  {KEYS.map(key => (
+                    <option key={key} value={key}>{key}</option>
+                  ))}
+                </select>
+                <select
+                  value={melody.scale}
+                  onChange={(e) => updateMelody({ scale: e.target.value as ScaleName })}
+                  className="bg-white/20 text-white rounded px-2 py-1 text-sm"
+                >
+                  {(Object.keys(SCALES) as ScaleName[]).map(scale => (
+                    <option key={scale} value={scale}>{SCALES[scale].label}</option>
+                  ))}
+                </select>
+                <label className="text-white text-xs">
+                  Low: {midiToNoteName(melody.lowNote)}
+                  <input
+                    type="number"
+                    min="0"
+                    max="127"
+                    value={melody.lowNote}
+                    onChange={(e) => updateMelody({ lowNote: Math.max(0, Math.min(127, Number(e.target.value))) })}
+                    className="w-full bg-white/20 text-white rounded px-2 py-1"
+                  />
+                </label>
+                <label className="text-white text-xs">
+                  High: {midiToNoteName(melody.highNote)}
+                  <input
+                    type="number"
+                    min="0"
+                    max="127"
+                    value={melody.highNote}
+                    onChange={(e) => updateMelody({ highNote: Math.max(0, Math.min(127, Number(e.target.value))) })}
+                    className="w-full bg-white/20 text-white rounded px-2 py-1"
+                  />
+                </label>
+                <select
+                  value={melody.pattern}
+                  onChange={(e) => updateMelody({ pattern: e.target.value as MelodyPattern })}
+                  className="bg-white/20 text-white rounded px-2 py-1 text-sm"
+                >
+                  {(Object.keys(MELODY_PATTERN_LABELS) as MelodyPattern[]).map(pattern => (
+                    <option key={pattern} value={pattern}>{MELODY_PATTERN_LABELS[pattern]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-white text-xs">
+                  Steps
+                  <input
+                    type="number"
+                    min="1"
+                    max="256"
+                    value={melody.length}
+                    onChange={(e) => updateMelody({ length: Math.max(1, Math.min(256, Number(e.target.value))) })}
+                    className="w-full bg-white/20 text-white rounded px-2 py-1"
+                  />
+                </label>
+              </div>
+              <button
+                onClick={handleGenerateMelody}
+                className="bg-white/20 text-white rounded px-3 py-1 hover:bg-white/30 text-sm"
+              >
+                Generate
+              </button>
+              <label className="flex items-center gap-2 text-white text-sm">
+                <input
+                  type="checkbox"
+                  checked={melody.quantize}
+                  onChange={(e) => updateMelody({ quantize: e.target.checked })}
+                />
+                Snap notes to scale
+              </label>
+              <label className="flex items-center gap-2 text-white text-sm">
+                <input
+                  type="checkbox"
+                  checked={melody.angleMapping}
+                  onChange={(e) => updateMelody({ angleMapping: e.target.checked })}
+                />
+                Pick notes from collision angle
+              </label>
+            </div>
+
+            <div>
+              <label className="text-white text-sm block mb-1">Instrument</label>
+              <select
+                value={instrument.type}
+                onChange={(e) => updateInstrument({ type: e.target.value as InstrumentType })}
+                className="bg-white/20 text-white rounded px-2 py-1 w-full"
+              >
+                {(Object.keys(INSTRUMENT_LABELS) as InstrumentType[]).map(type => (
+                  <option key={type} value={type}>{INSTRUMENT_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            {instrument.type === 'sampler' && (
+              <div className="space-y-2">
+                <label className="text-white text-sm block">Samples</label>
+                <input
+                  type="file"
+                  accept=".wav,audio/wav"
+                  onChange={handleSampleUpload}
+                  multiple
+                  className="text-white text-sm"
+                />
+                {instrument.samples.length === 0 && (
+                  <p className="text-white/60 text-xs">
+                    Upload WAV samples; the default synth plays until then
+                  </p>
+                )}
+                {instrument.samples.map(sample => (
+                  <div key={sample.name} className="flex gap-2 items-center">
+                    <span className="text-white text-sm truncate flex-1">{sample.name}</span>
+                    <input
+                      key={sample.note}
+                      type="text"
+                      defaultValue={sample.note}
+                      onBlur={(e) => updateSampleNote(sample.name, e.target.value)}
+                      className="bg-white/20 text-white rounded px-2 py-1 w-16"
+                    />
+                    <button
+                      onClick={() => removeSample(sample.name)}
+                      className="text-white hover:text-red-500"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                {sampleError && (
+                  <div className="text-red-500 text-sm bg-red-500/10 p-2 rounded">
+                    {sampleError}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <label className="text-white text-sm block">Envelope</label>
+              {(['attack', 'decay', 'sustain', 'release'] as const).map(stage => (
+                <div key={stage}>
+                  <label className="text-white text-xs block">
+                    {stage.charAt(0).toUpperCase() + stage.slice(1)}: {instrument.envelope[stage]}{stage === 'sustain' ? '' : 's'}
+                  </label>
+                  <input
+                    type="range"
+                    min={stage === 'attack' ? '0.001' : '0'}
+                    max={stage === 'sustain' ? '1' : '4'}
+                    step={stage === 'attack' ? '0.001' : '0.01'}
+                    value={instrument.envelope[stage]}
+                    onChange={(e) => updateEnvelope({ [stage]: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="text-white text-sm block mb-1">Reverb: {Math.round(instrument.reverb.wet * 100)}%</label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={instrument.reverb.wet}
+                onChange={(e) => updateInstrument({ reverb: { ...instrument.reverb, wet: Number(e.target.value) } })}
+                className="w-full"
+              />
+              <label className="text-white text-xs block">Decay: {instrument.reverb.decay}s</label>
+              <input
+                type="range"
+                min="0.1"
+                max="10"
+                step="0.1"
+                value={instrument.reverb.decay}
+                onChange={(e) => updateInstrument({ reverb: { ...instrument.reverb, decay: Number(e.target.value) } })}
+                className="w-full"
+              />
+            </div>
+
+            <div>
+              <label className="text-white text-sm block mb-1">Delay: {Math.round(instrument.delay.wet * 100)}%</label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={instrument.delay.wet}
+                onChange={(e) => updateInstrument({ delay: { ...instrument.delay, wet: Number(e.target.value) } })}
+                className="w-full"
+              />
+              <label className="text-white text-xs block">Time: {instrument.delay.time}s</label>
+              <input
+                type="range"
+                min="0.01"
+                max="1"
+                step="0.01"
+                value={instrument.delay.time}
+                onChange={(e) => updateInstrument({ delay: { ...instrument.delay, time: Number(e.target.value) } })}
+                className="w-full"
+              />
+              <label className="text-white text-xs block">Feedback: {Math.round(instrument.delay.feedback * 100)}%</label>
+              <input
+                type="range"
+                min="0"
+                max="0.9"
+                step="0.01"
+                value={instrument.delay.feedback}
+                onChange={(e) => updateInstrument({ delay: { ...instrument.delay, feedback: Number(e.target.value) } })}
+                className="w-full"
+              />
             </div>
           </div>
         )}
@@ -539,7 +1981,7 @@ function App() {
                 <span className="text-black font-sans text-base">Upload Audio (Max 10)</span>
                 <input
                   type="file"
-                  accept="audio/mp3,audio/mpeg,audio/wav,audio/ogg"
+                  accept={AUDIO_FILE_ACCEPT}
                   onChange={handleAudioUpload}
                   multiple
                   className="absolute inset-0 opacity-0 cursor-pointer"
@@ -550,9 +1992,90 @@ function App() {
                 <span className="text-white text-sm self-center">Processing...</span>
               )}
             </div>
+            <p className="text-white/60 text-xs">
+              Audio or video files; you can also drop them onto the canvas
+            </p>
+
+            {importProgress.length > 0 && (
+              <ul className="space-y-1">
+                {importProgress.map((entry, index) => (
+                  <li key={index} className="text-xs">
+                    <div className="flex justify-between gap-2 text-white/80">
+                      <span className="truncate max-w-[180px]" title={entry.name}>{entry.name}</span>
+                      <span className={entry.stage === 'error' ? 'text-red-400' : ''}>
+                        {FILE_IMPORT_STAGE_LABELS[entry.stage]}
+                        {entry.stage === 'reading' && ` ${Math.round(entry.progress * 100)}%`}
+                      </span>
+                    </div>
+                    <div className="h-1 bg-white/10 rounded">
+                      <div
+                        className={`h-1 rounded ${entry.stage === 'error' ? 'bg-red-500' : 'bg-white/60'}`}
+                        style={{ width: `${Math.round(entry.progress * 100)}%` }}
+                      />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
             
             <div>
-              <label className="text-white text-sm block mb-1">Duração do Segmento (segundos)</label>
+              <label className="text-white text-sm block mb-1">Segmentação</label>
+              <select
+                value={segmentationMode}
+                onChange={(e) => handleSegmentationModeChange(e.target.value as SegmentationMode)}
+                className="bg-white/20 text-white rounded px-2 py-1"
+              >
+                <option value="fixed">Duração fixa</option>
+                <option value="onsets">Transientes (onsets)</option>
+                <option value="beats">Batidas (beats)</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="text-white text-sm block mb-1">Reprodução dos Segmentos</label>
+              <div className="flex gap-2 flex-wrap">
+                <select
+                  value={segmentPlayback.mode}
+                  onChange={(e) => setSegmentPlayback(prev => ({ ...prev, mode: e.target.value as SegmentPlaybackMode }))}
+                  className="bg-white/20 text-white rounded px-2 py-1"
+                >
+                  <option value="retrigger">Reiniciar</option>
+                  <option value="overlap">Sobrepor</option>
+                  <option value="legato">Legato (até a próxima colisão)</option>
+                </select>
+                <select
+                  value={segmentPlayback.order}
+                  onChange={(e) => setSegmentPlayback(prev => ({ ...prev, order: e.target.value as SegmentOrder }))}
+                  className="bg-white/20 text-white rounded px-2 py-1"
+                >
+                  <option value="forward">Em ordem</option>
+                  <option value="reverse">Reversa</option>
+                  <option value="ping-pong">Ping-pong</option>
+                  <option value="random">Aleatória</option>
+                </select>
+              </div>
+              {segmentPlayback.mode === 'overlap' && (
+                <label className="flex items-center gap-2 text-white text-sm mt-2">
+                  <input
+                    type="number"
+                    min="1"
+                    max="16"
+                    value={segmentPlayback.voiceLimit}
+                    onChange={(e) => setSegmentPlayback(prev => ({
+                      ...prev,
+                      voiceLimit: Math.max(1, Math.min(16, Number(e.target.value)))
+                    }))}
+                    className="w-16 bg-white/20 text-white rounded px-2 py-1"
+                  />
+                  Vozes simultâneas
+                </label>
+              )}
+            </div>
+
+            <div>
+              <label className="text-white text-sm block mb-1">
+                {segmentationMode === 'fixed' ? 'Duração do Segmento (segundos)' : 'Duração Mínima do Segmento (segundos)'}
+              </label>
               <input
                 type="text"
                 value={audioSegmentDuration}
@@ -567,20 +2090,357 @@ function App() {
             </div>
             
             {audioError && (
-              <div className="text-red-500 text-sm bg-red-500/10 p-2 rounded">
+              <div className="text-red-500 text-sm bg-red-500/10 p-2 rounded whitespace-pre-line">
                 {audioError}
               </div>
             )}
             
             <div className="text-white text-sm">
               {audioManagerRef.current && (
-                <p>Tracks: {audioManagerRef.current.getTracksCount()} / {audioManagerRef.current.getMaxTracks()}</p>
+                <p>Tracks: {audioTracks.length} / {audioManagerRef.current.getMaxTracks()}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="text-white text-sm block mb-1">Seleção de Faixa</label>
+              <div className="flex gap-2">
+                <select
+                  value={trackSelectionMode}
+                  onChange={(e) => handleTrackSelectionChange(
+                    e.target.value as TrackSelectionMode,
+                    fixedTrackId ?? audioTracks[0]?.id ?? null
+                  )}
+                  className="bg-white/20 text-white rounded px-2 py-1"
+                >
+                  <option value="random">Aleatória</option>
+                  <option value="sequential">Sequencial</option>
+                  <option value="fixed">Fixa</option>
+                </select>
+                {trackSelectionMode === 'fixed' && (
+                  <select
+                    value={fixedTrackId ?? ''}
+                    onChange={(e) => handleTrackSelectionChange('fixed', Number(e.target.value))}
+                    className="bg-white/20 text-white rounded px-2 py-1 flex-1 min-w-0"
+                  >
+                    {audioTracks.map(track => (
+                      <option key={track.id} value={track.id}>{track.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {audioTracks.map((track, index) => (
+                <div
+                  key={track.id}
+                  className={`p-2 rounded space-y-1 ${track.id === currentTrackId ? 'bg-white/20' : 'bg-white/10'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handlePreviewTrack(track.id)}
+                      className="text-white hover:text-blue-400"
+                    >
+                      {previewTrackId === track.id ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </button>
+                    <span className="text-white text-sm truncate flex-1" title={track.name}>{track.name}</span>
+                    <span className="text-white/60 text-xs">{formatTrackDuration(track.duration)}</span>
+                    <button
+                      onClick={() => handleMoveTrack(track.id, -1)}
+                      disabled={index === 0}
+                      className="text-white disabled:opacity-30"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMoveTrack(track.id, 1)}
+                      disabled={index === audioTracks.length - 1}
+                      className="text-white disabled:opacity-30"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemoveTrack(track.id)}
+                      className="text-white hover:text-red-500"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <svg
+                    viewBox={`0 0 ${track.peaks.length} 2`}
+                    preserveAspectRatio="none"
+                    className="w-full h-6"
+                  >
+                    {track.peaks.map((peak, i) => (
+                      <rect key={i} x={i} y={1 - peak} width={0.8} height={Math.max(0.02, peak * 2)} fill="white" opacity={0.6} />
+                    ))}
+                    <rect
+                      x={(track.startOffset / track.duration) * track.peaks.length}
+                      y={0}
+                      width={0.4}
+                      height={2}
+                      fill="#f87171"
+                    />
+                  </svg>
+                  <div className="flex gap-2 items-center text-white text-xs">
+                    <label className="flex-1">
+                      Ganho: {Math.round(track.gain * 100)}%
+                      <input
+                        type="range"
+                        min="0"
+                        max="2"
+                        step="0.05"
+                        value={track.gain}
+                        onChange={(e) => handleTrackGainChange(track.id, Number(e.target.value))}
+                        className="w-full"
+                      />
+                    </label>
+                    <label>
+                      Início (s)
+                      <input
+                        type="number"
+                        min="0"
+                        max={Math.floor(track.duration)}
+                        step="0.1"
+                        value={track.startOffset}
+                        onChange={(e) => handleTrackStartOffsetChange(track.id, Number(e.target.value))}
+                        className="w-16 block bg-white/20 text-white rounded px-2 py-1"
+                      />
+                    </label>
+                  </div>
+                  <p className="text-white/60 text-xs">{track.segmentCount} segmentos</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2 border-t border-white/20 pt-4">
+              <label className="text-white text-sm block">Música de Fundo</label>
+              <div className="flex gap-2 items-center">
+                <label className="relative flex gap-2 items-center px-2 py-1 bg-white/20 rounded hover:bg-white/30 transition-colors cursor-pointer">
+                  <Upload className="w-4 h-4 text-white" />
+                  <span className="text-white text-sm">{musicBedName ? 'Trocar' : 'Carregar'}</span>
+                  <input
+                    type="file"
+                    accept={AUDIO_FILE_ACCEPT}
+                    onChange={handleMusicBedUpload}
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                  />
+                </label>
+                {musicBedName && (
+                  <>
+                    <span className="text-white text-sm truncate flex-1" title={musicBedName}>{musicBedName}</span>
+                    <button onClick={handleRemoveMusicBed} className="text-white hover:text-red-500">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+              {musicBedName && (
+                <div className="space-y-2 text-white text-xs">
+                  <label className="block">
+                    Volume: {Math.round(musicBedConfig.volume * 100)}%
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={musicBedConfig.volume}
+                      onChange={(e) => updateMusicBed({ volume: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </label>
+                  <label className="block">
+                    Ducking nas colisões: {Math.round(musicBedConfig.ducking * 100)}%
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={musicBedConfig.ducking}
+                      onChange={(e) => updateMusicBed({ ducking: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </label>
+                  <label className="block">
+                    Retorno do ducking: {musicBedConfig.duckRelease.toFixed(2)}s
+                    <input
+                      type="range"
+                      min="0.05"
+                      max="2"
+                      step="0.05"
+                      value={musicBedConfig.duckRelease}
+                      onChange={(e) => updateMusicBed({ duckRelease: Number(e.target.value) })}
+                      className="w-full"
+                    />
+                  </label>
+                  <div className="flex gap-4 items-center">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={musicBedConfig.loop}
+                        onChange={(e) => updateMusicBed({ loop: e.target.checked })}
+                      />
+                      Repetir
+                    </label>
+                    <label className="flex items-center gap-2">
+                      Fade-out (s)
+                      <input
+                        type="number"
+                        min="0"
+                        max="10"
+                        step="0.5"
+                        value={musicBedConfig.fadeOut}
+                        onChange={(e) => updateMusicBed({ fadeOut: Math.max(0, Number(e.target.value)) })}
+                        className="w-16 bg-white/20 text-white rounded px-2 py-1"
+                      />
+                    </label>
+                  </div>
+                  <p className="text-white/60">
+                    Toca durante as gravações; o fade-out termina no fim de cada clipe do lote
+                  </p>
+                </div>
               )}
             </div>
+
+            <div className="space-y-2 border-t border-white/20 pt-4 text-white text-xs">
+              <label className="text-sm block">Saída Master</label>
+              {(['peak', 'rms'] as const).map(meter => {
+                const level = masterLevels?.[meter] ?? -Infinity;
+                return (
+                  <div key={meter} className="flex items-center gap-2">
+                    <span className="w-8">{meter === 'peak' ? 'Pico' : 'RMS'}</span>
+                    <div className="flex-1 h-2 bg-white/10 rounded overflow-hidden">
+                      <div
+                        className={`h-2 ${level > -1 ? 'bg-red-500' : level > -6 ? 'bg-yellow-400' : 'bg-green-500'}`}
+                        style={{ width: meterWidth(level) }}
+                      />
+                    </div>
+                    <span className="w-12 text-right font-mono">{formatDecibels(level)} dB</span>
+                  </div>
+                );
+              })}
+              <label className="block">
+                Volume: {Math.round(masterBusConfig.volume * 100)}%
+                <input
+                  type="range"
+                  min="0"
+                  max="1.5"
+                  step="0.05"
+                  value={masterBusConfig.volume}
+                  onChange={(e) => updateMasterBus('volume', Number(e.target.value))}
+                  className="w-full"
+                />
+              </label>
+              <div className="flex gap-2 items-center">
+                <label className="flex items-center gap-2 w-24">
+                  <input
+                    type="checkbox"
+                    checked={masterBusConfig.compressor.enabled}
+                    onChange={(e) => updateMasterBus('compressor', { ...masterBusConfig.compressor, enabled: e.target.checked })}
+                  />
+                  Compressor
+                </label>
+                <label className="flex-1">
+                  Limiar: {masterBusConfig.compressor.threshold} dB
+                  <input
+                    type="range"
+                    min="-48"
+                    max="0"
+                    step="1"
+                    value={masterBusConfig.compressor.threshold}
+                    disabled={!masterBusConfig.compressor.enabled}
+                    onChange={(e) => updateMasterBus('compressor', { ...masterBusConfig.compressor, threshold: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+                <label className="flex-1">
+                  Razão: {masterBusConfig.compressor.ratio}:1
+                  <input
+                    type="range"
+                    min="1"
+                    max="20"
+                    step="0.5"
+                    value={masterBusConfig.compressor.ratio}
+                    disabled={!masterBusConfig.compressor.enabled}
+                    onChange={(e) => updateMasterBus('compressor', { ...masterBusConfig.compressor, ratio: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+              </div>
+              <div className="flex gap-2 items-center">
+                <label className="flex items-center gap-2 w-24">
+                  <input
+                    type="checkbox"
+                    checked={masterBusConfig.limiter.enabled}
+                    onChange={(e) => updateMasterBus('limiter', { ...masterBusConfig.limiter, enabled: e.target.checked })}
+                  />
+                  Limitador
+                </label>
+                <label className="flex-1">
+                  Teto: {masterBusConfig.limiter.ceiling} dB
+                  <input
+                    type="range"
+                    min="-12"
+                    max="0"
+                    step="0.5"
+                    value={masterBusConfig.limiter.ceiling}
+                    disabled={!masterBusConfig.limiter.enabled}
+                    onChange={(e) => updateMasterBus('limiter', { ...masterBusConfig.limiter, ceiling: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+              </div>
+              <div className="flex gap-2 items-center">
+                <span className="w-24">Reverb</span>
+                <label className="flex-1">
+                  Mix: {Math.round(masterBusConfig.reverb.wet * 100)}%
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={masterBusConfig.reverb.wet}
+                    onChange={(e) => updateMasterBus('reverb', { ...masterBusConfig.reverb, wet: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+                <label className="flex-1">
+                  Decaimento: {masterBusConfig.reverb.decay}s
+                  <input
+                    type="range"
+                    min="0.5"
+                    max="8"
+                    step="0.5"
+                    value={masterBusConfig.reverb.decay}
+                    onChange={(e) => updateMasterBus('reverb', { ...masterBusConfig.reverb, decay: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+              </div>
+            </div>
           </div>
         )}
 
         <div className="space-y-2">
+          <div>
+            <label className="text-white text-sm block mb-1">Seed</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={seedInput}
+                onChange={handleSeedInputChange}
+                className="w-32 bg-white/20 text-white rounded px-2 py-1 font-mono"
+              />
+              <button
+                onClick={handleReplaySeed}
+                disabled={isRecordingBatch}
+                className="px-3 py-1 rounded bg-white/20 hover:bg-white/30 text-white text-sm"
+              >
+                Replay
+              </button>
+            </div>
+          </div>
+
           <div>
             <label className="text-white text-sm block mb-1">Gravity</label>
             <input
@@ -633,6 +2493,190 @@ function App() {
             />
           </div>
 
+          <div>
+            <label className="text-white text-sm block mb-1">Balls: {ballCount}</label>
+            <input
+              type="range"
+              min="1"
+              max="10"
+              step="1"
+              value={ballCount}
+              onChange={handleBallCountChange}
+              disabled={isRecordingBatch}
+              className="w-full"
+            />
+            <label className="flex items-center gap-2 text-white text-sm mt-1">
+              <input
+                type="checkbox"
+                checked={perBallSound}
+                onChange={(e) => setPerBallSound(e.target.checked)}
+              />
+              Separate sound per ball
+            </label>
+          </div>
+
+          <div>
+            <label className="text-white text-sm block mb-1">Container</label>
+            <select
+              value={containerConfig.shape}
+              onChange={(e) => updateContainer({ shape: e.target.value as ContainerShape })}
+              className="bg-white/20 text-white rounded px-2 py-1 w-full"
+            >
+              <option value="circle">Circle</option>
+              <option value="triangle">Triangle</option>
+              <option value="square">Square</option>
+              <option value="hexagon">Hexagon</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="text-white text-sm block mb-1">Rotation: {containerConfig.rotationSpeed}°/s</label>
+            <input
+              type="range"
+              min="-180"
+              max="180"
+              step="5"
+              value={containerConfig.rotationSpeed}
+              onChange={(e) => updateContainer({ rotationSpeed: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="text-white text-sm block mb-1">Gap: {containerConfig.gapSize}°</label>
+            <input
+              type="range"
+              min="0"
+              max="90"
+              step="1"
+              value={containerConfig.gapSize}
+              onChange={(e) => updateContainer({ gapSize: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-white text-sm block">End Conditions</label>
+            <label className="flex items-center gap-2 text-white text-sm">
+              <input
+                type="checkbox"
+                checked={endConditions.maxRadius}
+                onChange={(e) => updateEndConditions({ maxRadius: e.target.checked })}
+              />
+              Ball reaches max size
+            </label>
+            <label className="flex items-center gap-2 text-white text-sm">
+              <input
+                type="checkbox"
+                checked={endConditions.escape}
+                onChange={(e) => updateEndConditions({ escape: e.target.checked })}
+              />
+              Ball escapes through the gap
+            </label>
+            <label className="flex items-center gap-2 text-white text-sm">
+              <input
+                type="number"
+                min="0"
+                value={endConditions.collisionCount}
+                onChange={(e) => updateEndConditions({ collisionCount: Math.max(0, Number(e.target.value)) })}
+                className="w-20 bg-white/20 text-white rounded px-2 py-1"
+              />
+              Bounces (0 = off)
+            </label>
+            <label className="flex items-center gap-2 text-white text-sm">
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={endConditions.timeLimit}
+                onChange={(e) => updateEndConditions({ timeLimit: Math.max(0, Number(e.target.value)) })}
+                className="w-20 bg-white/20 text-white rounded px-2 py-1"
+              />
+              Seconds (0 = off)
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-white text-sm block">Collision Dynamics</label>
+            <p className="text-white/60 text-xs">
+              Impact speed (px/s) or ball radius (px) mapped to sound. Gain applies to audio segments, velocity to notes, pitch and filter to both.
+            </p>
+            {(Object.keys(DYNAMICS_TARGET_LABELS) as DynamicsTarget[]).map(target => {
+              const mapping = dynamics[target];
+              return (
+                <div key={target} className="space-y-1">
+                  <label className="flex items-center gap-2 text-white text-sm">
+                    <input
+                      type="checkbox"
+                      checked={mapping.enabled}
+                      onChange={(e) => updateDynamics(target, { enabled: e.target.checked })}
+                    />
+                    {DYNAMICS_TARGET_LABELS[target]}
+                  </label>
+                  {mapping.enabled && (
+                    <div className="grid grid-cols-2 gap-1 pl-6">
+                      <select
+                        value={mapping.source}
+                        onChange={(e) => updateDynamics(target, { source: e.target.value as DynamicsSource })}
+                        className="bg-white/20 text-white rounded px-2 py-1 text-sm"
+                      >
+                        <option value="speed">Impact speed</option>
+                        <option value="radius">Ball radius</option>
+                      </select>
+                      <select
+                        value={mapping.curve}
+                        onChange={(e) => updateDynamics(target, { curve: e.target.value as DynamicsCurve })}
+                        className="bg-white/20 text-white rounded px-2 py-1 text-sm"
+                      >
+                        {(Object.keys(DYNAMICS_CURVE_LABELS) as DynamicsCurve[]).map(curve => (
+                          <option key={curve} value={curve}>{DYNAMICS_CURVE_LABELS[curve]}</option>
+                        ))}
+                      </select>
+                      <label className="text-white text-xs">
+                        In min
+                        <input
+                          type="number"
+                          value={mapping.inputMin}
+                          onChange={(e) => updateDynamics(target, { inputMin: Number(e.target.value) })}
+                          className="w-full bg-white/20 text-white rounded px-2 py-1"
+                        />
+                      </label>
+                      <label className="text-white text-xs">
+                        In max
+                        <input
+                          type="number"
+                          value={mapping.inputMax}
+                          onChange={(e) => updateDynamics(target, { inputMax: Number(e.target.value) })}
+                          className="w-full bg-white/20 text-white rounded px-2 py-1"
+                        />
+                      </label>
+                      <label className="text-white text-xs">
+                        Out min
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={mapping.outputMin}
+                          onChange={(e) => updateDynamics(target, { outputMin: Number(e.target.value) })}
+                          className="w-full bg-white/20 text-white rounded px-2 py-1"
+                        />
+                      </label>
+                      <label className="text-white text-xs">
+                        Out max
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={mapping.outputMax}
+                          onChange={(e) => updateDynamics(target, { outputMax: Number(e.target.value) })}
+                          className="w-full bg-white/20 text-white rounded px-2 py-1"
+                        />
+                      </label>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
           <div className="pt-4 border-t border-white/20 space-y-2">
             <div>
               <label className="text-white text-sm block mb-1">Duração da Gravação (segundos)</label>
@@ -645,6 +2689,131 @@ function App() {
               />
             </div>
 
+            <div>
+              <label className="text-white text-sm block mb-1">Modo de Gravação</label>
+              <select
+                value={renderMode}
+                onChange={(e) => setRenderMode(e.target.value as 'realtime' | 'offline')}
+                disabled={isRecordingBatch}
+                className="bg-white/20 text-white rounded px-2 py-1"
+              >
+                <option value="realtime">Tempo real</option>
+                <option value="offline" disabled={!OfflineRenderer.isSupported()}>
+                  Offline (quadro a quadro)
+                </option>
+              </select>
+            </div>
+
+            <div>
+              <label className="text-white text-sm block mb-1">Formato</label>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                disabled={isRecordingBatch || isRecording}
+                className="bg-white/20 text-white rounded px-2 py-1"
+              >
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                  <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+                ))}
+              </select>
+              {formatNotice && (
+                <p className="text-yellow-400 text-xs mt-1 max-w-xs">{formatNotice}</p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-white text-sm block">Variação por Clipe</label>
+              <p className="text-white/60 text-xs max-w-xs">
+                Cada clipe do lote sorteia os valores marcados dentro do intervalo. Os valores usados ficam no manifesto,
+                e repetir a semente de um clipe com os mesmos intervalos refaz o clipe. Posição, velocidade e direção
+                iniciais valem só para a primeira bola.
+              </p>
+              {(Object.keys(RANDOMIZED_PARAMETER_LABELS) as RandomizedParameter[]).map(parameter => {
+                const range = randomization.ranges[parameter];
+                return (
+                  <div key={parameter} className="space-y-1">
+                    <label className="flex items-center gap-2 text-white text-sm">
+                      <input
+                        type="checkbox"
+                        checked={range.enabled}
+                        onChange={(e) => updateRandomRange(parameter, { enabled: e.target.checked })}
+                        disabled={isRecordingBatch}
+                      />
+                      {RANDOMIZED_PARAMETER_LABELS[parameter]}
+                    </label>
+                    {range.enabled && (
+                      <div className="grid grid-cols-2 gap-1 pl-6">
+                        <label className="text-white text-xs">
+                          Mín
+                          <input
+                            type="number"
+                            step="any"
+                            value={range.min}
+                            onChange={(e) => updateRandomRange(parameter, { min: Number(e.target.value) })}
+                            disabled={isRecordingBatch}
+                            className="w-full bg-white/20 text-white rounded px-2 py-1"
+                          />
+                        </label>
+                        <label className="text-white text-xs">
+                          Máx
+                          <input
+                            type="number"
+                            step="any"
+                            value={range.max}
+                            onChange={(e) => updateRandomRange(parameter, { max: Number(e.target.value) })}
+                            disabled={isRecordingBatch}
+                            className="w-full bg-white/20 text-white rounded px-2 py-1"
+                          />
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              <label className="flex items-center gap-2 text-white text-sm">
+                <input
+                  type="checkbox"
+                  checked={randomization.palette.enabled}
+                  onChange={(e) => updatePalette({ enabled: e.target.checked })}
+                  disabled={isRecordingBatch}
+                />
+                Paleta de cores
+              </label>
+              {randomization.palette.enabled && (
+                <div className="flex flex-wrap items-center gap-1 pl-6">
+                  {randomization.palette.colors.map((color, index) => (
+                    <div key={index} className="flex items-center">
+                      <input
+                        type="color"
+                        value={color}
+                        onChange={(e) => updatePalette({
+                          colors: randomization.palette.colors.map((c, i) => i === index ? e.target.value : c)
+                        })}
+                        disabled={isRecordingBatch}
+                        className="w-8 h-6 bg-white/20 rounded"
+                      />
+                      <button
+                        onClick={() => updatePalette({
+                          colors: randomization.palette.colors.filter((_, i) => i !== index)
+                        })}
+                        disabled={isRecordingBatch}
+                        className="text-white/60 hover:text-white"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updatePalette({ colors: [...randomization.palette.colors, '#ffffff'] })}
+                    disabled={isRecordingBatch}
+                    className="p-1 rounded bg-white/20 hover:bg-white/30 text-white"
+                  >
+                    <Plus size={12} />
+                  </button>
+                </div>
+              )}
+            </div>
+
             <div>
               <label className="text-white text-sm block mb-1">Quantidade de Gravações</label>
               <div className="flex gap-2">
@@ -664,7 +2833,9 @@ function App() {
                       : 'bg-white/20 hover:bg-white/30'
                   } text-white text-sm`}
                 >
-                  {isRecordingBatch ? 'Gravando...' : 'Iniciar Lote'}
+                  {renderProgress
+                    ? `Renderizando ${renderProgress.clip}/${renderProgress.total} (${Math.round(renderProgress.progress * 100)}%)`
+                    : isRecordingBatch ? 'Gravando...' : 'Iniciar Lote'}
                 </button>
               </div>
             </div>
@@ -0,0 +1,62 @@
+import * as Tone from 'tone';
+import { MasterBus } from './MasterBus';
+
+// Owns the app's single AudioContext: the simulation, the audio manager and the MIDI player all
+// play through its master bus, which feeds both the speakers and the recording destination.
+export class AudioEngine {
+  private readonly context: AudioContext;
+  private readonly masterBus: MasterBus;
+  private readonly recordingDestination: MediaStreamAudioDestinationNode;
+  private closed: boolean = false;
+
+  constructor() {
+    this.context = new (window.AudioContext || window.webkitAudioContext)();
+    this.recordingDestination = this.context.createMediaStreamDestination();
+    this.masterBus = new MasterBus(this.context)
+      .connect(this.context.destination)
+      .connect(this.recordingDestination);
+
+    // Tone creates its nodes on its current context, so point it at ours
+    Tone.setContext(this.context);
+  }
+
+  public getContext(): AudioContext {
+    return this.context;
+  }
+
+  public getMasterBus(): MasterBus {
+    return this.masterBus;
+  }
+
+  // Where every sound source connects
+  public getOutput(): AudioNode {
+    return this.masterBus.input;
+  }
+
+  public getRecordingStream(): MediaStream {
+    return this.recordingDestination.stream;
+  }
+
+  // Browsers only start audio after a user gesture, so call this from one
+  public async resume(): Promise<void> {
+    if (this.closed || this.context.state === 'running') return;
+    await this.context.resume();
+  }
+
+  public async suspend(): Promise<void> {
+    if (this.closed || this.context.state !== 'running') return;
+    await this.context.suspend();
+  }
+
+  // Releases the audio hardware; the engine cannot be used afterwards
+  public async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.masterBus.dispose();
+    await this.context.close();
+  }
+
+  public isClosed(): boolean {
+    return this.closed;
+  }
+}
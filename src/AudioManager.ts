@@ -1,175 +1,557 @@
+import { CollisionDynamics, DEFAULT_DYNAMICS, resolveDynamics } from './CollisionDynamics';
+import { AudioEngine } from './AudioEngine';
+import { MasterBus } from './MasterBus';
+import { OnsetAnalysis, analyzeOnsets, detectBeats, detectOnsets } from './OnsetDetector';
+import { SeededRandom } from './SeededRandom';
+import {
+  AudioSegment,
+  AudioTrackInfo,
+  CollisionEvent,
+  DynamicsConfig,
+  FileImportProgress,
+  MusicBedConfig,
+  SegmentationMode,
+  SegmentPlaybackConfig,
+  TrackSelectionMode
+} from './types';
+
+// A decoded file and the ranges it is split into; segments are never copied out of the buffer
+interface AudioTrack {
+  id: number;
+  name: string;
+  // The uploaded file, kept so projects can embed it
+  source: Blob;
+  buffer: AudioBuffer;
+  onsets: OnsetAnalysis;
+  segments: AudioSegment[];
+  gain: number;
+  startOffset: number;
+  peaks: number[];
+}
+
+// Playback state for one ball (or for all balls when per-ball routing is off)
+interface Voice {
+  // Number of segments this voice has started, used to walk the segment order
+  step: number;
+  playing: PlayingSegment[];
+  lastPlayStartTime: number;
+}
+
+interface PlayingSegment {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  // Infinity for legato segments, which play until the next hit
+  endTime: number;
+}
+
+// The music bed's live nodes: volume, then a gain the collisions duck
+interface MusicBedPlayback {
+  source: AudioBufferSourceNode;
+  volume: GainNode;
+  duck: GainNode;
+}
+
+export const DEFAULT_MUSIC_BED: MusicBedConfig = {
+  volume: 0.5,
+  ducking: 0.5,
+  duckRelease: 0.4,
+  loop: true,
+  fadeOut: 2
+};
+
 export class AudioManager {
   private audioContext: AudioContext;
-  private audioTracks: AudioSegment[][] = [];
+  private tracks: AudioTrack[] = [];
+  private nextTrackId: number = 1;
   private currentTrackIndex: number = 0;
-  private segments: AudioSegment[] = [];
-  private currentSegmentIndex: number = 0;
+  private selectionMode: TrackSelectionMode = 'random';
+  // Track played in fixed mode, by id so it survives reordering
+  private fixedTrackId: number | null = null;
+  // Next list position played in sequential mode
+  private sequentialCursor: number = 0;
+  private previewSource: AudioBufferSourceNode | null = null;
+  private voices: Voice[] = [];
+  private perBallRouting: boolean = false;
   private isProcessing: boolean = false;
-  private currentSource: AudioBufferSourceNode | null = null;
-  private isPlaying: boolean = false;
   private segmentDuration: number = 0.3;
-  private lastPlayStartTime: number = 0;
+  private segmentationMode: SegmentationMode = 'fixed';
+  private engine: AudioEngine;
   private gainNode: GainNode;
-  private destinationNode: MediaStreamAudioDestinationNode | null = null;
   private readonly MAX_TRACKS = 10;
+  // Short fades at both ends of every segment avoid clicks when cutting mid-waveform
+  private readonly FADE_DURATION = 0.005;
+  private readonly WAVEFORM_BUCKETS = 80;
+  private readonly MEDIA_EXTENSIONS = [
+    'mp3', 'wav', 'ogg', 'oga', 'opus', 'flac', 'm4a', 'aac', 'weba', 'aif', 'aiff', 'caf',
+    'webm', 'mp4', 'm4v', 'mov'
+  ];
+  private readonly VIDEO_EXTENSIONS = ['webm', 'mp4', 'm4v', 'mov'];
+  private random: SeededRandom = new SeededRandom();
+  // Separate stream for random segment order so it does not shift track selection
+  private orderRandom: SeededRandom = new SeededRandom();
+  private playback: SegmentPlaybackConfig = { mode: 'retrigger', order: 'forward', voiceLimit: 4 };
+  private dynamics: DynamicsConfig = DEFAULT_DYNAMICS;
+  private musicBed: { name: string; source: Blob; buffer: AudioBuffer } | null = null;
+  private musicBedConfig: MusicBedConfig = DEFAULT_MUSIC_BED;
+  private musicBedPlayback: MusicBedPlayback | null = null;
+  private readonly DUCK_ATTACK = 0.01;
 
-  constructor(destinationNode?: MediaStreamAudioDestinationNode) {
-    this.audioContext = destinationNode?.context || new (window.AudioContext || window.webkitAudioContext)();
+  constructor(engine: AudioEngine) {
+    this.engine = engine;
+    this.audioContext = engine.getContext();
     this.gainNode = this.audioContext.createGain();
-    this.destinationNode = destinationNode || null;
-    
-    this.gainNode.connect(this.audioContext.destination);
-    if (this.destinationNode) {
-      this.gainNode.connect(this.destinationNode);
-    }
+
+    // Segments and the music bed share the master bus with the MIDI notes
+    this.gainNode.connect(engine.getOutput());
+  }
+
+  public getMasterBus(): MasterBus {
+    return this.engine.getMasterBus();
   }
 
   public setSegmentDuration(duration: number) {
-    if (duration > 0) {
+    if (duration > 0 && duration !== this.segmentDuration) {
       this.segmentDuration = duration;
-      // Re-process all tracks with new segment duration
-      this.reprocessTracks();
+      this.resegmentTracks();
     }
   }
 
-  private async reprocessTracks() {
-    const oldTracks = [...this.audioTracks];
-    this.audioTracks = [];
-    this.segments = [];
-    
-    for (const track of oldTracks) {
-      if (track.length > 0) {
-        // Reconstruct original audio buffer
-        const firstSegment = track[0];
-        const sampleRate = firstSegment.buffer.sampleRate;
-        const totalLength = track.reduce((acc, segment) => acc + segment.buffer.length, 0);
-        const channels = firstSegment.buffer.numberOfChannels;
-        
-        const fullBuffer = this.audioContext.createBuffer(
-          channels,
-          totalLength,
-          sampleRate
-        );
-        
-        let offset = 0;
-        for (const segment of track) {
-          for (let channel = 0; channel < channels; channel++) {
-            const channelData = fullBuffer.getChannelData(channel);
-            channelData.set(segment.buffer.getChannelData(channel), offset);
-          }
-          offset += segment.buffer.length;
-        }
-        
-        // Split into new segments with new duration
-        const newSegments = await this.splitAudioIntoSegments(fullBuffer);
-        this.audioTracks.push(newSegments);
-        
-        if (this.audioTracks.length === 1) {
-          this.segments = newSegments;
-        }
-      }
+  // In onset and beat modes the segment duration is the minimum segment length
+  public setSegmentationMode(mode: SegmentationMode) {
+    if (mode !== this.segmentationMode) {
+      this.segmentationMode = mode;
+      this.resegmentTracks();
     }
   }
 
-  private isValidAudioFormat(file: File): boolean {
-    const validTypes = ['audio/mp3', 'audio/mpeg', 'audio/wav', 'audio/ogg'];
-    return validTypes.includes(file.type);
+  // Segments are only offset ranges, so splitting again is synchronous and playback never
+  // sees a half-built track list
+  private resegmentTracks() {
+    for (const track of this.tracks) {
+      track.segments = this.splitAudioIntoSegments(track, track.startOffset);
+    }
   }
 
-  private async splitAudioIntoSegments(audioBuffer: AudioBuffer): Promise<AudioSegment[]> {
-    const sampleRate = audioBuffer.sampleRate;
-    const samplesPerSegment = this.segmentDuration * sampleRate;
-    const segments: AudioSegment[] = [];
+  private getExtension(file: File): string {
+    const dot = file.name.lastIndexOf('.');
+    return dot === -1 ? '' : file.name.slice(dot + 1).toLowerCase();
+  }
 
-    for (let i = 0; i < audioBuffer.length; i += samplesPerSegment) {
-      const segmentLength = Math.min(samplesPerSegment, audioBuffer.length - i);
-      const segmentBuffer = this.audioContext.createBuffer(
-        audioBuffer.numberOfChannels,
-        segmentLength,
-        sampleRate
-      );
+  // Accepts files by MIME type or extension, and files the browser gives no type at all;
+  // decodeAudioData decides whether the format is really supported
+  public isSupportedMediaFile(file: File): boolean {
+    return file.type === '' ||
+      file.type.startsWith('audio/') ||
+      file.type.startsWith('video/') ||
+      this.MEDIA_EXTENSIONS.includes(this.getExtension(file));
+  }
 
-      for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-        const channelData = audioBuffer.getChannelData(channel);
-        const segmentData = segmentBuffer.getChannelData(channel);
-        segmentData.set(channelData.slice(i, i + segmentLength));
+  private isVideoFile(file: File): boolean {
+    return file.type.startsWith('video/') ||
+      (!file.type.startsWith('audio/') && this.VIDEO_EXTENSIONS.includes(this.getExtension(file)));
+  }
+
+  private readFile(file: File, onProgress?: (progress: FileImportProgress) => void): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress?.({ stage: 'reading', progress: event.loaded / event.total });
+        }
+      };
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+      reader.readAsArrayBuffer(file);
+    });
+  }
+
+  // Segment start times in seconds for the current segmentation mode
+  private getSegmentBoundaries({ buffer: audioBuffer, onsets }: Pick<AudioTrack, 'buffer' | 'onsets'>): number[] {
+    switch (this.segmentationMode) {
+      case 'onsets':
+        return detectOnsets(onsets, this.segmentDuration);
+      case 'beats':
+        return detectBeats(onsets, this.segmentDuration);
+      default: {
+        const boundaries: number[] = [];
+        for (let time = 0; time < audioBuffer.duration; time += this.segmentDuration) {
+          boundaries.push(time);
+        }
+        return boundaries;
       }
+    }
+  }
 
-      segments.push({
-        buffer: segmentBuffer,
-        startTime: i / sampleRate,
-        duration: this.segmentDuration
-      });
+  private splitAudioIntoSegments(track: Pick<AudioTrack, 'buffer' | 'onsets'>, startOffset: number): AudioSegment[] {
+    const audioBuffer = track.buffer;
+    let boundaries = this.getSegmentBoundaries(track);
+    if (startOffset > 0) {
+      boundaries = [startOffset, ...boundaries.filter(time => time > startOffset)];
     }
 
-    return segments;
+    return boundaries
+      .map((startTime, index) => {
+        const endTime = index + 1 < boundaries.length ? boundaries[index + 1] : audioBuffer.duration;
+        return { startTime, duration: Math.min(endTime, audioBuffer.duration) - startTime };
+      })
+      .filter(segment => segment.duration > 0);
   }
 
-  public async processAudioFile(file: File): Promise<void> {
-    if (!this.isValidAudioFormat(file)) {
-      throw new Error('Invalid audio format. Please upload MP3, WAV, or OGG files.');
+  // Decodes an audio file, or the audio track of a video file, and adds it as a track.
+  // Returns the new track's id.
+  public async processAudioFile(file: File, onProgress?: (progress: FileImportProgress) => void): Promise<number> {
+    if (!this.isSupportedMediaFile(file)) {
+      throw new Error(`${file.name} is not an audio or video file.`);
     }
 
-    if (this.audioTracks.length >= this.MAX_TRACKS) {
+    if (this.tracks.length >= this.MAX_TRACKS) {
       throw new Error(`Maximum number of tracks (${this.MAX_TRACKS}) reached. Remove some tracks before adding more.`);
     }
 
     try {
       this.isProcessing = true;
-      const arrayBuffer = await file.arrayBuffer();
-      const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-      
-      const newSegments = await this.splitAudioIntoSegments(audioBuffer);
-      this.audioTracks.push(newSegments);
+      onProgress?.({ stage: 'reading', progress: 0 });
+      const arrayBuffer = await this.readFile(file, onProgress);
+
+      onProgress?.({ stage: 'decoding', progress: 1 });
+      const audioBuffer = await this.decodeFile(file, arrayBuffer);
       
-      // If this is the first track, set it as active
-      if (this.audioTracks.length === 1) {
-        this.segments = newSegments;
-      }
+      const id = this.nextTrackId++;
+      // Analysed once here so later re-segmenting only picks boundaries
+      const onsets = analyzeOnsets(audioBuffer);
+      this.tracks.push({
+        id,
+        name: file.name,
+        source: file,
+        buffer: audioBuffer,
+        onsets,
+        segments: this.splitAudioIntoSegments({ buffer: audioBuffer, onsets }, 0),
+        gain: 1,
+        startOffset: 0,
+        peaks: this.computePeaks(audioBuffer)
+      });
       
       this.isProcessing = false;
+      onProgress?.({ stage: 'done', progress: 1 });
 
       if (this.audioContext.state === 'suspended') {
         await this.audioContext.resume();
       }
+      return id;
     } catch (error) {
       this.isProcessing = false;
-      throw new Error(`Failed to process audio file: ${error.message}`);
+      onProgress?.({ stage: 'error', progress: 1 });
+      throw new Error(`Failed to process ${file.name}: ${error instanceof Error ? error.message : error}`);
     }
   }
 
-  public selectRandomTrack(): void {
-    if (this.audioTracks.length === 0) return;
-    
-    const randomIndex = Math.floor(Math.random() * this.audioTracks.length);
-    this.currentTrackIndex = randomIndex;
-    this.segments = this.audioTracks[randomIndex];
-    this.currentSegmentIndex = 0;
-    this.lastPlayStartTime = 0;
-    
-    if (this.currentSource) {
+  private async decodeFile(file: File, arrayBuffer: ArrayBuffer): Promise<AudioBuffer> {
+    try {
+      return await this.audioContext.decodeAudioData(arrayBuffer);
+    } catch {
+      throw new Error(this.isVideoFile(file)
+        ? 'no audio track could be extracted from this video'
+        : `the browser cannot decode this format (${this.getExtension(file) || file.type || 'unknown type'})`);
+    }
+  }
+
+  // Replaces the music bed; it is not a track, so it is never segmented or selected
+  public async loadMusicBed(file: File): Promise<void> {
+    if (!this.isSupportedMediaFile(file)) {
+      throw new Error(`${file.name} is not an audio or video file.`);
+    }
+
+    try {
+      const buffer = await this.decodeFile(file, await this.readFile(file));
+      this.stopMusicBed();
+      this.musicBed = { name: file.name, source: file, buffer };
+    } catch (error) {
+      throw new Error(`Failed to process ${file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  public removeMusicBed(): void {
+    this.stopMusicBed();
+    this.musicBed = null;
+  }
+
+  public hasMusicBed(): boolean {
+    return this.musicBed !== null;
+  }
+
+  public getMusicBedName(): string | null {
+    return this.musicBed?.name ?? null;
+  }
+
+  public getMusicBedSource(): Blob | null {
+    return this.musicBed?.source ?? null;
+  }
+
+  public setMusicBedConfig(config: MusicBedConfig): void {
+    this.musicBedConfig = config;
+    this.musicBedPlayback?.volume.gain.setTargetAtTime(config.volume, this.audioContext.currentTime, 0.02);
+    if (this.musicBedPlayback) {
+      this.musicBedPlayback.source.loop = config.loop;
+    }
+  }
+
+  // Starts the bed from the beginning for a recording. With a known `duration` it fades out and
+  // stops at the end of the recording; otherwise it plays until stopMusicBed.
+  public startMusicBed(duration?: number): void {
+    this.stopMusicBed();
+    if (!this.musicBed) return;
+
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(error => console.error('Failed to resume audio:', error));
+    }
+
+    this.musicBedPlayback = this.createMusicBed(
+      this.audioContext,
+      this.gainNode,
+      this.audioContext.currentTime,
+      duration ?? null
+    );
+  }
+
+  // Fades the bed out from now over its fade-out time, capped at `maxDuration`, then stops it.
+  // Returns the fade length so a recording can keep running until the fade has finished.
+  public fadeOutMusicBed(maxDuration: number = Infinity): number {
+    if (!this.musicBedPlayback) return 0;
+    const { source, volume } = this.musicBedPlayback;
+    this.musicBedPlayback = null;
+
+    const now = this.audioContext.currentTime;
+    const fade = Math.max(this.FADE_DURATION, Math.min(this.musicBedConfig.fadeOut, maxDuration));
+    // Replaces the fade scheduled for the planned end of the recording
+    volume.gain.cancelScheduledValues(now);
+    volume.gain.setValueAtTime(volume.gain.value, now);
+    volume.gain.linearRampToValueAtTime(0, now + fade);
+    source.stop(now + fade);
+    return fade;
+  }
+
+  public stopMusicBed(): void {
+    if (!this.musicBedPlayback) return;
+    const { source, duck } = this.musicBedPlayback;
+    this.musicBedPlayback = null;
+    this.releaseSegment({ source, gain: duck, endTime: Infinity }, this.audioContext.currentTime);
+  }
+
+  private createMusicBed(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    when: number,
+    duration: number | null
+  ): MusicBedPlayback {
+    const { buffer } = this.musicBed!;
+    const config = this.musicBedConfig;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = config.loop;
+
+    const volume = context.createGain();
+    const duck = context.createGain();
+    source.connect(volume);
+    volume.connect(duck);
+    duck.connect(destination);
+
+    volume.gain.setValueAtTime(0, when);
+    volume.gain.linearRampToValueAtTime(config.volume, when + this.FADE_DURATION);
+    source.start(when);
+
+    if (duration !== null) {
+      const end = when + duration;
+      const fadeStart = Math.max(when, end - Math.max(this.FADE_DURATION, config.fadeOut));
+      volume.gain.setValueAtTime(config.volume, fadeStart);
+      volume.gain.linearRampToValueAtTime(0, end);
+      source.stop(end);
+    }
+    return { source, volume, duck };
+  }
+
+  // Dips the bed for a collision at `when`, holds for about a segment and lets it recover
+  private duckMusicBed(duck: GainNode, when: number) {
+    const { ducking, duckRelease } = this.musicBedConfig;
+    if (ducking <= 0) return;
+
+    duck.gain.cancelScheduledValues(when);
+    duck.gain.setTargetAtTime(1 - Math.min(1, ducking), when, this.DUCK_ATTACK / 3);
+    duck.gain.setTargetAtTime(1, when + this.segmentDuration, Math.max(0.001, duckRelease / 3));
+  }
+
+  private computePeaks(audioBuffer: AudioBuffer): number[] {
+    const bucketSize = Math.max(1, Math.floor(audioBuffer.length / this.WAVEFORM_BUCKETS));
+    const peaks: number[] = [];
+
+    for (let start = 0; start < audioBuffer.length && peaks.length < this.WAVEFORM_BUCKETS; start += bucketSize) {
+      let peak = 0;
+      for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+        const data = audioBuffer.getChannelData(channel);
+        const end = Math.min(start + bucketSize, data.length);
+        for (let i = start; i < end; i++) {
+          peak = Math.max(peak, Math.abs(data[i]));
+        }
+      }
+      peaks.push(Math.min(1, peak));
+    }
+    return peaks;
+  }
+
+  // Picks the track for the next run according to the selection mode
+  public selectTrack(): void {
+    if (this.tracks.length === 0) return;
+
+    if (this.selectionMode === 'sequential') {
+      this.currentTrackIndex = this.sequentialCursor % this.tracks.length;
+      this.sequentialCursor = this.currentTrackIndex + 1;
+    } else if (this.selectionMode === 'fixed') {
+      const fixedIndex = this.tracks.findIndex(track => track.id === this.fixedTrackId);
+      this.currentTrackIndex = Math.max(0, fixedIndex);
+    } else {
+      this.currentTrackIndex = this.random.nextInt(this.tracks.length);
+    }
+    this.stopVoices();
+  }
+
+  public setTrackSelectionMode(mode: TrackSelectionMode, fixedTrackId: number | null = null): void {
+    this.selectionMode = mode;
+    this.fixedTrackId = fixedTrackId;
+    this.sequentialCursor = 0;
+    this.selectTrack();
+  }
+
+  public getTracks(): AudioTrackInfo[] {
+    return this.tracks.map(track => ({
+      id: track.id,
+      name: track.name,
+      duration: track.buffer.duration,
+      gain: track.gain,
+      startOffset: track.startOffset,
+      segmentCount: track.segments.length,
+      peaks: track.peaks
+    }));
+  }
+
+  public getTrackSource(id: number): Blob | null {
+    return this.findTrack(id)?.source ?? null;
+  }
+
+  public getCurrentTrackId(): number | null {
+    return this.tracks[this.currentTrackIndex]?.id ?? null;
+  }
+
+  private findTrack(id: number): AudioTrack | undefined {
+    return this.tracks.find(track => track.id === id);
+  }
+
+  public setTrackGain(id: number, gain: number): void {
+    const track = this.findTrack(id);
+    if (track) {
+      track.gain = Math.max(0, gain);
+    }
+  }
+
+  public setTrackStartOffset(id: number, startOffset: number): void {
+    const track = this.findTrack(id);
+    if (!track) return;
+
+    track.startOffset = Math.max(0, Math.min(startOffset, track.buffer.duration - 0.01));
+    track.segments = this.splitAudioIntoSegments(track, track.startOffset);
+  }
+
+  // Moves a track within the list; the current track stays selected
+  public moveTrack(id: number, direction: -1 | 1): void {
+    const index = this.tracks.findIndex(track => track.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= this.tracks.length) return;
+
+    const currentId = this.getCurrentTrackId();
+    [this.tracks[index], this.tracks[target]] = [this.tracks[target], this.tracks[index]];
+    this.currentTrackIndex = Math.max(0, this.tracks.findIndex(track => track.id === currentId));
+  }
+
+  // Plays a whole track from its start offset on the speakers only, so previews never reach recordings
+  public previewTrack(id: number, onEnded?: () => void): void {
+    this.stopPreview();
+    const track = this.findTrack(id);
+    if (!track) return;
+
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume().catch(error => console.error('Failed to resume audio:', error));
+    }
+
+    const source = this.audioContext.createBufferSource();
+    const gain = this.audioContext.createGain();
+    source.buffer = track.buffer;
+    gain.gain.value = track.gain;
+    source.connect(gain);
+    gain.connect(this.audioContext.destination);
+    source.onended = () => {
+      if (this.previewSource === source) {
+        this.previewSource = null;
+      }
+      onEnded?.();
+    };
+    source.start(0, track.startOffset);
+    this.previewSource = source;
+  }
+
+  public stopPreview(): void {
+    if (this.previewSource) {
+      const source = this.previewSource;
+      this.previewSource = null;
       try {
-        this.currentSource.stop();
-      } catch (e) {
+        source.stop();
+      } catch {
         // Ignore errors if source is already stopped
       }
-      this.currentSource = null;
     }
   }
 
-  public removeTrack(index: number): void {
-    if (index < 0 || index >= this.audioTracks.length) return;
+  // When enabled, each ball plays its own track (offset from the selected one) with its own segment position
+  public setPerBallRouting(enabled: boolean): void {
+    this.perBallRouting = enabled;
+    this.stopVoices();
+  }
+
+  private getVoiceIndex(ballIndex: number): number {
+    return this.perBallRouting ? ballIndex : 0;
+  }
+
+  private getVoiceTrack(voiceIndex: number): AudioTrack | null {
+    if (this.tracks.length === 0) return null;
+    return this.tracks[(this.currentTrackIndex + voiceIndex) % this.tracks.length];
+  }
+
+  private getVoice(voiceIndex: number): Voice {
+    if (!this.voices[voiceIndex]) {
+      this.voices[voiceIndex] = { step: 0, playing: [], lastPlayStartTime: 0 };
+    }
+    return this.voices[voiceIndex];
+  }
+
+  private stopVoices(): void {
+    for (const voice of this.voices) {
+      voice?.playing.forEach(playing => this.releaseSegment(playing, this.audioContext.currentTime));
+    }
+    this.voices = [];
+    this.orderRandom.setSeed(this.random.getSeed());
+  }
+
+  public removeTrack(id: number): void {
+    const index = this.tracks.findIndex(track => track.id === id);
+    if (index < 0) return;
     
-    this.audioTracks.splice(index, 1);
+    this.tracks.splice(index, 1);
     
     // If we removed the current track, select a new one
     if (this.currentTrackIndex === index) {
-      if (this.audioTracks.length > 0) {
-        this.selectRandomTrack();
+      if (this.tracks.length > 0) {
+        this.selectTrack();
       } else {
-        this.segments = [];
         this.currentTrackIndex = 0;
-        this.currentSegmentIndex = 0;
+        this.stopVoices();
       }
     } else if (this.currentTrackIndex > index) {
       // Adjust current track index if we removed a track before it
@@ -177,74 +559,235 @@ export class AudioManager {
     }
   }
 
-  public async playNextSegment(): Promise<void> {
-    if (this.segments.length === 0 || this.isProcessing) return;
+  public setDynamics(dynamics: DynamicsConfig) {
+    this.dynamics = dynamics;
+  }
 
-    const currentTime = this.audioContext.currentTime;
-    const timeSinceLastPlay = currentTime - this.lastPlayStartTime;
+  // Plays one segment straight from its track's buffer at `when`, through a gain envelope with
+  // short fades and the pitch and filter for its collision. In legato mode the segment has no
+  // fixed length and keeps playing into the rest of the track until it is released.
+  private playSegment(
+    context: BaseAudioContext,
+    track: AudioTrack,
+    segment: AudioSegment,
+    destination: AudioNode,
+    dynamics: CollisionDynamics,
+    when: number,
+    legato: boolean
+  ): PlayingSegment {
+    const source = context.createBufferSource();
+    source.buffer = track.buffer;
+    source.playbackRate.value = Math.pow(2, dynamics.pitch / 12);
 
-    if (timeSinceLastPlay < this.segmentDuration * 0.9) {
-      return;
+    const level = dynamics.gain * track.gain;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, when);
+
+    if (legato) {
+      gain.gain.linearRampToValueAtTime(level, when + this.FADE_DURATION);
+    } else {
+      const playDuration = segment.duration / source.playbackRate.value;
+      const fade = Math.min(this.FADE_DURATION, playDuration / 2);
+      gain.gain.linearRampToValueAtTime(level, when + fade);
+      gain.gain.setValueAtTime(level, when + playDuration - fade);
+      gain.gain.linearRampToValueAtTime(0, when + playDuration);
+    }
+    gain.connect(destination);
+
+    if (dynamics.filterCutoff !== null) {
+      const filter = context.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = dynamics.filterCutoff;
+      filter.connect(gain);
+      source.connect(filter);
+    } else {
+      source.connect(gain);
     }
 
+    if (legato) {
+      source.start(when, segment.startTime);
+    } else {
+      source.start(when, segment.startTime, segment.duration);
+    }
+    return { source, gain, endTime: legato ? Infinity : when + segment.duration / source.playbackRate.value };
+  }
+
+  // Fades a playing segment out from `when` and stops it
+  private releaseSegment(playing: PlayingSegment, when: number) {
     try {
-      if (this.audioContext.state === 'suspended') {
-        await this.audioContext.resume();
+      playing.gain.gain.cancelScheduledValues(when);
+      playing.gain.gain.setTargetAtTime(0, when, this.FADE_DURATION / 3);
+      playing.source.stop(when + this.FADE_DURATION);
+    } catch {
+      // Ignore errors if source is already stopped
+    }
+  }
+
+  // Position in the track for the voice's next hit, following the segment order
+  private nextSegmentIndex(voice: Voice, segmentCount: number, random: SeededRandom): number {
+    const step = voice.step++;
+    switch (this.playback.order) {
+      case 'reverse':
+        return segmentCount - 1 - (step % segmentCount);
+      case 'ping-pong': {
+        if (segmentCount === 1) return 0;
+        const period = 2 * segmentCount - 2;
+        const position = step % period;
+        return position < segmentCount ? position : period - position;
       }
+      case 'random':
+        return random.nextInt(segmentCount);
+      default:
+        return step % segmentCount;
+    }
+  }
 
-      if (this.currentSource) {
-        try {
-          this.currentSource.stop();
-        } catch (e) {
-          // Ignore errors if source is already stopped
-        }
+  // Applies the playback mode for one hit; shared by live playback and offline scheduling
+  private triggerVoice(
+    context: BaseAudioContext,
+    voice: Voice,
+    track: AudioTrack,
+    destination: AudioNode,
+    dynamics: CollisionDynamics,
+    when: number,
+    random: SeededRandom
+  ) {
+    const { mode, voiceLimit } = this.playback;
+
+    // Retrigger ignores hits while the current segment is still mostly playing
+    if (mode === 'retrigger' && when - voice.lastPlayStartTime < this.segmentDuration * 0.9) {
+      return;
+    }
+
+    voice.playing = voice.playing.filter(playing => playing.endTime > when);
+    if (mode === 'overlap') {
+      while (voice.playing.length >= Math.max(1, voiceLimit)) {
+        this.releaseSegment(voice.playing.shift()!, when);
       }
+    } else {
+      voice.playing.forEach(playing => this.releaseSegment(playing, when));
+      voice.playing = [];
+    }
 
-      const segment = this.segments[this.currentSegmentIndex];
-      const source = this.audioContext.createBufferSource();
-      
-      source.buffer = segment.buffer;
-      source.connect(this.gainNode);
+    const segment = track.segments[this.nextSegmentIndex(voice, track.segments.length, random)];
+    voice.playing.push(this.playSegment(context, track, segment, destination, dynamics, when, mode === 'legato'));
+    voice.lastPlayStartTime = when;
+  }
 
-      source.start(0);
-      this.lastPlayStartTime = currentTime;
-      this.currentSource = source;
-      this.isPlaying = true;
+  public setPlaybackConfig(config: SegmentPlaybackConfig) {
+    this.playback = config;
+  }
 
-      source.onended = () => {
-        this.isPlaying = false;
-        this.currentSegmentIndex = (this.currentSegmentIndex + 1) % this.segments.length;
-      };
+  public async playNextSegment(event: CollisionEvent): Promise<void> {
+    if (this.musicBedPlayback) {
+      this.duckMusicBed(this.musicBedPlayback.duck, this.audioContext.currentTime);
+    }
+
+    const voiceIndex = this.getVoiceIndex(event.ballIndex);
+    const track = this.getVoiceTrack(voiceIndex);
+    if (!track || track.segments.length === 0) return;
+
+    try {
+      if (this.audioContext.state === 'suspended') {
+        await this.audioContext.resume();
+      }
+
+      this.triggerVoice(
+        this.audioContext,
+        this.getVoice(voiceIndex),
+        track,
+        this.gainNode,
+        resolveDynamics(this.dynamics, event),
+        this.audioContext.currentTime,
+        this.orderRandom
+      );
     } catch (error) {
       console.error('Playback error:', error);
-      this.isPlaying = false;
     }
   }
 
-  public clearSegments(): void {
-    if (this.currentSource) {
-      try {
-        this.currentSource.stop();
-      } catch (e) {
-        // Ignore errors if source is already stopped
+  // Schedules the segments that playNextSegment would have played for the given collisions
+  // into another context, e.g. an OfflineAudioContext used for offline rendering.
+  public scheduleSegments(context: BaseAudioContext, destination: AudioNode, collisions: CollisionEvent[]): void {
+    if (!this.hasSegments()) return;
+
+    const voices: Voice[] = [];
+    // Random order replays the same sequence as a live run from the same seed
+    const random = new SeededRandom(this.random.getSeed());
+
+    for (const collision of collisions) {
+      const voiceIndex = this.getVoiceIndex(collision.ballIndex);
+      const track = this.getVoiceTrack(voiceIndex);
+      if (!track || track.segments.length === 0) continue;
+      if (!voices[voiceIndex]) {
+        voices[voiceIndex] = { step: 0, playing: [], lastPlayStartTime: -Infinity };
       }
-      this.currentSource = null;
+
+      this.triggerVoice(
+        context,
+        voices[voiceIndex],
+        track,
+        destination,
+        resolveDynamics(this.dynamics, collision),
+        collision.time,
+        random
+      );
+    }
+  }
+
+  // Schedules the music bed for a recording of `duration` seconds, ducked under the given collisions
+  public scheduleMusicBed(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    collisions: CollisionEvent[],
+    duration: number
+  ): void {
+    if (!this.musicBed) return;
+
+    const { duck } = this.createMusicBed(context, destination, 0, duration);
+    for (const collision of collisions) {
+      this.duckMusicBed(duck, collision.time);
     }
+  }
+
+  // Whether any track a collision can be routed to has segments; with per-ball routing every
+  // track can be reached
+  public hasSegments(): boolean {
+    if (this.perBallRouting) {
+      return this.tracks.some(track => track.segments.length > 0);
+    }
+    return (this.tracks[this.currentTrackIndex]?.segments.length ?? 0) > 0;
+  }
+
+  public clearSegments(): void {
+    this.stopVoices();
+    this.stopPreview();
+    this.stopMusicBed();
     
-    this.audioTracks = [];
-    this.segments = [];
+    this.tracks = [];
     this.currentTrackIndex = 0;
-    this.currentSegmentIndex = 0;
-    this.isPlaying = false;
-    this.lastPlayStartTime = 0;
   }
 
-  public reset(): void {
-    this.selectRandomTrack();
+  public reset(seed?: number): void {
+    if (seed !== undefined) {
+      this.random.setSeed(seed);
+    }
+    this.selectTrack();
   }
 
   public getTracksCount(): number {
-    return this.audioTracks.length;
+    return this.tracks.length;
+  }
+
+  public getCurrentTrackName(): string | null {
+    return this.tracks[this.currentTrackIndex]?.name ?? null;
+  }
+
+  // The track each ball plays; all the same unless per-ball routing is on
+  public getBallTrackNames(ballCount: number): (string | null)[] {
+    return Array.from({ length: ballCount }, (_, ballIndex) =>
+      this.getVoiceTrack(this.getVoiceIndex(ballIndex))?.name ?? null
+    );
   }
 
   public getMaxTracks(): number {
@@ -255,7 +798,11 @@ export class AudioManager {
     return this.isProcessing;
   }
 
-  public getAudioStream(): MediaStream | null {
-    return this.destinationNode?.stream || null;
+  // Stops everything this manager is playing and detaches it from the engine
+  public dispose(): void {
+    this.stopVoices();
+    this.stopPreview();
+    this.stopMusicBed();
+    this.gainNode.disconnect();
   }
 }
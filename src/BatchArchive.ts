@@ -0,0 +1,38 @@
+import JSZip from 'jszip';
+import { ClipManifestEntry } from './types';
+
+export class BatchArchive {
+  private zip: JSZip = new JSZip();
+  private clips: ClipManifestEntry[] = [];
+  private readonly createdAt = new Date();
+
+  public addClip(blob: Blob, entry: ClipManifestEntry) {
+    // Video is already compressed, so store it as-is
+    this.zip.file(entry.fileName, blob, { compression: 'STORE' });
+    this.clips.push(entry);
+  }
+
+  public getClipCount(): number {
+    return this.clips.length;
+  }
+
+  public async generate(): Promise<Blob> {
+    const manifest = {
+      version: 1,
+      createdAt: this.createdAt.toISOString(),
+      clips: this.clips
+    };
+    this.zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return this.zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 }
+    });
+  }
+
+  public getFileName(): string {
+    const timestamp = this.createdAt.toISOString().replace(/[:.]/g, '-');
+    return `simulation-batch-${timestamp}.zip`;
+  }
+}
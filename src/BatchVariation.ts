@@ -0,0 +1,83 @@
+import { SeededRandom } from './SeededRandom';
+import {
+  BallStart,
+  ClipVariation,
+  ParameterRange,
+  PhysicsParameters,
+  RandomizationConfig,
+  RandomizedParameter
+} from './types';
+
+export const RANDOMIZED_PARAMETER_LABELS: Record<RandomizedParameter, string> = {
+  gravity: 'Gravidade',
+  velocityIncrease: 'Aumento de velocidade',
+  velocityDecay: 'Decaimento de velocidade',
+  ballGrowth: 'Crescimento da bola',
+  startX: 'Posição inicial X (0-1)',
+  startY: 'Posição inicial Y (0-1)',
+  startSpeed: 'Velocidade inicial',
+  startAngle: 'Direção inicial (graus)'
+};
+
+export const DEFAULT_RANDOMIZATION: RandomizationConfig = {
+  ranges: {
+    gravity: { enabled: false, min: 0.2, max: 0.6 },
+    velocityIncrease: { enabled: false, min: 0.01, max: 0.04 },
+    velocityDecay: { enabled: false, min: 0.995, max: 1 },
+    ballGrowth: { enabled: false, min: 0.005, max: 0.03 },
+    startX: { enabled: false, min: 0.4, max: 0.6 },
+    startY: { enabled: false, min: 0.33, max: 0.45 },
+    startSpeed: { enabled: false, min: 0.5, max: 2 },
+    startAngle: { enabled: false, min: 0, max: 360 }
+  },
+  palette: { enabled: false, colors: ['#ff2d55', '#00c2ff', '#ffd60a', '#30d158', '#bf5af2'] }
+};
+
+// Mixed into the clip seed so the variation does not reuse the simulation's random sequence
+const VARIATION_SEED_SALT = 0x9e3779b9;
+
+export function isRandomizationEnabled(config: RandomizationConfig): boolean {
+  return Object.values(config.ranges).some(range => range.enabled) ||
+    (config.palette.enabled && config.palette.colors.length > 0);
+}
+
+// Draws the enabled parameters for a clip. The draw depends only on the clip seed and the ranges,
+// so replaying a clip's seed with the same ranges gives the same clip.
+export function sampleVariation(config: RandomizationConfig, clipSeed: number): ClipVariation {
+  const random = new SeededRandom((clipSeed ^ VARIATION_SEED_SALT) >>> 0);
+  const values: ClipVariation['values'] = {};
+
+  for (const [parameter, range] of Object.entries(config.ranges) as [RandomizedParameter, ParameterRange][]) {
+    // Draw for every parameter so enabling one range does not change the others
+    const value = random.range(Math.min(range.min, range.max), Math.max(range.min, range.max));
+    if (range.enabled) {
+      values[parameter] = value;
+    }
+  }
+
+  const { palette } = config;
+  const colorIndex = random.nextInt(palette.colors.length);
+  const color = palette.enabled && palette.colors.length > 0 ? palette.colors[colorIndex] : null;
+
+  return { values, color };
+}
+
+// The physics a clip runs with: the base settings with any sampled values in place
+export function applyVariation(physics: PhysicsParameters, variation: ClipVariation): PhysicsParameters {
+  const { values } = variation;
+  return {
+    ...physics,
+    gravity: values.gravity ?? physics.gravity,
+    velocityIncrease: values.velocityIncrease ?? physics.velocityIncrease,
+    velocityDecay: values.velocityDecay ?? physics.velocityDecay,
+    ballGrowth: values.ballGrowth ?? physics.ballGrowth
+  };
+}
+
+export function getBallStart(variation: ClipVariation): BallStart | null {
+  const { startX, startY, startSpeed, startAngle } = variation.values;
+  if (startX === undefined && startY === undefined && startSpeed === undefined && startAngle === undefined) {
+    return null;
+  }
+  return { x: startX, y: startY, speed: startSpeed, angle: startAngle };
+}
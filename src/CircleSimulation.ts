@@ -1,3 +1,21 @@
+import { AudioEngine } from './AudioEngine';
+import { Container, createContainer } from './Containers';
+import { EXPORT_FORMATS, getRecorderMimeType } from './ExportFormats';
+import { SeededRandom } from './SeededRandom';
+import { BallStart, CollisionEvent, ContainerConfig, EndConditions, EndEvent, EndReason, ExportFormat } from './types';
+
+interface Ball {
+  center: [number, number];
+  previousCenter: [number, number];
+  velocity: [number, number];
+  initialVelocity: [number, number];
+  radius: number;
+  color: string;
+  collisionPoints: Array<[number, number]>;
+  previousPositions: Array<[number, number]>;
+  escaped: boolean;
+}
+
 export class CircleSimulation {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
@@ -5,18 +23,25 @@ export class CircleSimulation {
   private chunks: Blob[] = [];
   private animationId: number = 0;
   private running: boolean = false;
-  private startTime: number = 0;
   private elapsedTime: number = 0;
+  private accumulator: number = 0;
+  private lastFrameTime: number = 0;
+  private simulationHue: number = 0;
   private simulationColor: string;
+  // Replaces the seeded container color, e.g. with a color from a batch palette
+  private colorOverride: string | null = null;
+  private firstBallStart: BallStart | null = null;
   private onRecordingComplete?: (blob: Blob) => void;
   private textElements: any[] = [];
-  private onCollision?: () => void;
+  private onCollision?: (event: CollisionEvent) => void;
+  private onEnd?: (event: EndEvent) => void;
   private isDragging: boolean = false;
-  private audioContext: AudioContext;
-  private audioDestination: MediaStreamAudioDestinationNode;
+  private draggedBallIndex: number = -1;
+  private audioEngine: AudioEngine;
   private offscreenCanvas: HTMLCanvasElement;
   private offscreenCtx: CanvasRenderingContext2D;
   private currentAudioStream: MediaStream | null = null;
+  private random: SeededRandom;
 
   // Constants
   private readonly WIDTH: number;
@@ -30,15 +55,30 @@ export class CircleSimulation {
   private readonly MAX_BALL_RADIUS: number;
   private readonly MOTION_BLUR_STEPS = 5;
   private readonly MAX_COLLISION_POINTS = 50;
-  private previousPositions: Array<[number, number]> = [];
+  // Physics constants are tuned per step at 60 Hz, independent of display refresh rate
+  private readonly FIXED_TIMESTEP = 1 / 60;
+  private readonly MAX_FRAME_TIME = 0.25;
+  private readonly MAX_BALLS = 10;
 
-  // Ball properties
-  private ballRadius: number;
-  private ballCenter: [number, number];
-  private ballVelocity: [number, number];
-  private collisionPoints: Array<[number, number]> = [];
+  // Container properties
+  private containerConfig: ContainerConfig = { shape: 'circle', rotationSpeed: 0, gapSize: 0 };
+  private container: Container;
+
+  // End of run properties
+  private endConditions: EndConditions = { maxRadius: false, escape: false, collisionCount: 0, timeLimit: 0 };
+  private collisionCount: number = 0;
+  private endEvent: EndEvent | null = null;
 
-  constructor(canvas: HTMLCanvasElement, textElements: any[], onCollision?: () => void) {
+  // Ball properties
+  private ballCount: number = 1;
+  private balls: Ball[] = [];
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    textElements: any[],
+    audioEngine: AudioEngine,
+    onCollision?: (event: CollisionEvent) => void
+  ) {
     this.canvas = canvas;
     const ctx = canvas.getContext('2d', { alpha: false });
     if (!ctx) throw new Error('Could not get canvas context');
@@ -56,13 +96,14 @@ export class CircleSimulation {
     this.HEIGHT = canvas.height;
     this.CIRCLE_RADIUS = Math.min(this.WIDTH, this.HEIGHT) / 2 - 125;
     this.MAX_BALL_RADIUS = this.CIRCLE_RADIUS * 1.5;
+    this.container = createContainer(this.containerConfig, [this.WIDTH / 2, this.HEIGHT / 2], this.CIRCLE_RADIUS);
+    this.random = new SeededRandom();
     this.simulationColor = this.generateRandomColor();
     this.textElements = textElements;
     this.onCollision = onCollision;
     this.isDragging = false;
 
-    this.audioContext = new (window.AudioContext || window.webkitAudioContext)();
-    this.audioDestination = this.audioContext.createMediaStreamDestination();
+    this.audioEngine = audioEngine;
 
     // Enable hardware acceleration
     this.ctx.imageSmoothingEnabled = true;
@@ -72,18 +113,90 @@ export class CircleSimulation {
   }
 
   private generateRandomColor(): string {
-    const hue = Math.random() * 360;
+    // Always draw, so an override does not shift the rest of the seeded run
+    this.simulationHue = this.random.next() * 360;
+    if (this.colorOverride) {
+      this.simulationHue = getHue(this.colorOverride) ?? this.simulationHue;
+      return this.colorOverride;
+    }
+    return `hsl(${this.simulationHue}, 100%, 50%)`;
+  }
+
+  // The first ball shares the container color; the others are spread evenly around the hue wheel
+  private generateBallColor(index: number): string {
+    if (index === 0) return this.simulationColor;
+    const hue = (this.simulationHue + (index * 360) / this.ballCount) % 360;
     return `hsl(${hue}, 100%, 50%)`;
   }
 
+  private createBall(index: number): Ball {
+    let center: [number, number] = [this.WIDTH / 2, this.HEIGHT / 2.7];
+    let velocity: [number, number] = [0.8, 0.8];
+
+    if (index === 0 && this.firstBallStart) {
+      const start = this.firstBallStart;
+      const circleCenter: [number, number] = [this.WIDTH / 2, this.HEIGHT / 2];
+      const target: [number, number] = [
+        (start.x ?? center[0] / this.WIDTH) * this.WIDTH,
+        (start.y ?? center[1] / this.HEIGHT) * this.HEIGHT
+      ];
+      // Keep the ball well inside the container whatever the requested position
+      const offset = Math.hypot(target[0] - circleCenter[0], target[1] - circleCenter[1]);
+      const maxOffset = this.CIRCLE_RADIUS * 0.8;
+      const scale = offset > maxOffset ? maxOffset / offset : 1;
+      center = [
+        circleCenter[0] + (target[0] - circleCenter[0]) * scale,
+        circleCenter[1] + (target[1] - circleCenter[1]) * scale
+      ];
+
+      const speed = start.speed ?? Math.hypot(velocity[0], velocity[1]);
+      const angle = start.angle !== undefined ? (start.angle * Math.PI) / 180 : Math.atan2(velocity[1], velocity[0]);
+      velocity = [Math.cos(angle) * speed, Math.sin(angle) * speed];
+    }
+
+    if (index > 0) {
+      // Spawn additional balls at random spots inside the container, away from the others
+      const circleCenter: [number, number] = [this.WIDTH / 2, this.HEIGHT / 2];
+      for (let attempt = 0; attempt < 20; attempt++) {
+        const angle = this.random.range(0, Math.PI * 2);
+        const distance = Math.sqrt(this.random.next()) * this.CIRCLE_RADIUS * 0.6;
+        center = [
+          circleCenter[0] + Math.cos(angle) * distance,
+          circleCenter[1] + Math.sin(angle) * distance
+        ];
+        const overlaps = this.balls.some(ball =>
+          Math.hypot(ball.center[0] - center[0], ball.center[1] - center[1]) < (ball.radius + this.INITIAL_BALL_RADIUS) * 4
+        );
+        if (!overlaps) break;
+      }
+
+      const direction = this.random.range(0, Math.PI * 2);
+      velocity = [Math.cos(direction) * 1.1, Math.sin(direction) * 1.1];
+    }
+
+    return {
+      center,
+      previousCenter: [...center],
+      velocity: [...velocity],
+      initialVelocity: velocity,
+      radius: this.INITIAL_BALL_RADIUS,
+      color: this.generateBallColor(index),
+      collisionPoints: [],
+      previousPositions: [],
+      escaped: false
+    };
+  }
+
   public updateTextElements(textElements: any[]) {
     this.textElements = textElements;
   }
 
   private cleanupResources() {
     // Clear visual artifacts
-    this.collisionPoints = [];
-    this.previousPositions = [];
+    for (const ball of this.balls) {
+      ball.collisionPoints = [];
+      ball.previousPositions = [];
+    }
     
     // Clear recording data
     this.chunks = [];
@@ -93,8 +206,10 @@ export class CircleSimulation {
     this.offscreenCtx.clearRect(0, 0, this.WIDTH, this.HEIGHT);
     
     // Reset ball properties
-    this.ballRadius = this.INITIAL_BALL_RADIUS;
-    this.ballVelocity = [0.8, 0.8];
+    for (const ball of this.balls) {
+      ball.radius = this.INITIAL_BALL_RADIUS;
+      ball.velocity = [...ball.initialVelocity];
+    }
     
     // Clear media recorder
     if (this.mediaRecorder) {
@@ -113,7 +228,12 @@ export class CircleSimulation {
     }
   }
 
-  private setupRecording(audioStream?: MediaStream) {
+  private setupRecording(audioStream?: MediaStream, format: ExportFormat = 'webm') {
+    const mimeType = getRecorderMimeType(format);
+    if (!mimeType) {
+      throw new Error(`This browser cannot record ${EXPORT_FORMATS[format].label} video.`);
+    }
+
     // Clean up previous recording resources
     this.cleanupResources();
 
@@ -135,7 +255,7 @@ export class CircleSimulation {
 
     // Optimize video encoding
     this.mediaRecorder = new MediaRecorder(combinedStream, {
-      mimeType: 'video/webm;codecs=vp9',
+      mimeType,
       videoBitsPerSecond: 2500000
     });
 
@@ -146,7 +266,7 @@ export class CircleSimulation {
     };
 
     this.mediaRecorder.onstop = async () => {
-      const finalBlob = new Blob(this.chunks, { type: 'video/webm' });
+      const finalBlob = new Blob(this.chunks, { type: EXPORT_FORMATS[format].mimeType });
       
       if (this.onRecordingComplete) {
         this.onRecordingComplete(finalBlob);
@@ -164,8 +284,9 @@ export class CircleSimulation {
     };
   }
 
-  public startRecording(onComplete?: (blob: Blob) => void, audioStream?: MediaStream) {
-    this.setupRecording(audioStream);
+  // Records the canvas together with everything the audio engine plays
+  public startRecording(onComplete?: (blob: Blob) => void, format: ExportFormat = 'webm') {
+    this.setupRecording(this.audioEngine.getRecordingStream(), format);
     
     if (this.mediaRecorder && this.mediaRecorder.state === 'inactive') {
       this.chunks = [];
@@ -180,19 +301,72 @@ export class CircleSimulation {
     }
   }
 
-  public getAudioDestination(): MediaStreamAudioDestinationNode {
-    return this.audioDestination;
+  public getCanvas(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  public setOnCollision(
+    onCollision?: (event: CollisionEvent) => void
+  ): ((event: CollisionEvent) => void) | undefined {
+    const previous = this.onCollision;
+    this.onCollision = onCollision;
+    return previous;
+  }
+
+  public setOnEnd(onEnd?: (event: EndEvent) => void): ((event: EndEvent) => void) | undefined {
+    const previous = this.onEnd;
+    this.onEnd = onEnd;
+    return previous;
+  }
+
+  public setEndConditions(conditions: EndConditions) {
+    this.endConditions = { ...conditions };
+  }
+
+  public getEndEvent(): EndEvent | null {
+    return this.endEvent;
   }
 
-  public reset() {
-    this.ballRadius = this.INITIAL_BALL_RADIUS;
-    this.ballCenter = [this.WIDTH / 2, this.HEIGHT / 2.7];
-    this.ballVelocity = [0.8, 0.8];
-    this.collisionPoints = [];
-    this.previousPositions = [];
-    this.startTime = performance.now();
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  public reset(seed: number = SeededRandom.generateSeed()) {
+    this.random.setSeed(seed);
     this.elapsedTime = 0;
+    this.accumulator = 0;
+    this.collisionCount = 0;
+    this.endEvent = null;
     this.simulationColor = this.generateRandomColor();
+    this.container = createContainer(this.containerConfig, [this.WIDTH / 2, this.HEIGHT / 2], this.CIRCLE_RADIUS);
+
+    this.balls = [];
+    for (let i = 0; i < this.ballCount; i++) {
+      this.balls.push(this.createBall(i));
+    }
+  }
+
+  // Used by batch variation; both take effect on the next reset
+  public setFirstBallStart(start: BallStart | null) {
+    this.firstBallStart = start;
+  }
+
+  public setColorOverride(color: string | null) {
+    this.colorOverride = color;
+  }
+
+  public setBallCount(count: number) {
+    this.ballCount = Math.max(1, Math.min(Math.round(count), this.MAX_BALLS));
+  }
+
+  public getBallCount(): number {
+    return this.ballCount;
+  }
+
+  // Takes effect immediately; the container's rotation restarts from zero
+  public setContainer(config: ContainerConfig) {
+    this.containerConfig = { ...config };
+    this.container = createContainer(this.containerConfig, [this.WIDTH / 2, this.HEIGHT / 2], this.CIRCLE_RADIUS);
   }
 
   public setGravity(value: number) {
@@ -212,102 +386,210 @@ export class CircleSimulation {
   }
 
   private update() {
-    this.elapsedTime = (performance.now() - this.startTime) / 1000;
+    // The run is frozen on the end card once an end condition fires
+    if (this.endEvent) return;
 
-    // Limit motion blur history
-    if (this.previousPositions.length >= this.MOTION_BLUR_STEPS) {
-      this.previousPositions.shift();
-    }
-    this.previousPositions.push([...this.ballCenter]);
+    this.elapsedTime += this.FIXED_TIMESTEP;
+    this.container.update(this.FIXED_TIMESTEP);
 
-    // Apply physics
-    this.ballVelocity[1] += this.GRAVITY;
-    this.ballVelocity[0] *= this.VELOCITY_DECAY;
-    this.ballVelocity[1] *= this.VELOCITY_DECAY;
-    this.ballCenter[0] += this.ballVelocity[0];
-    this.ballCenter[1] += this.ballVelocity[1];
+    for (const ball of this.balls) {
+      ball.previousCenter = [...ball.center];
 
-    // Check collision
-    const circleCenter: [number, number] = [this.WIDTH / 2, this.HEIGHT / 2];
-    const dx = this.ballCenter[0] - circleCenter[0];
-    const dy = this.ballCenter[1] - circleCenter[1];
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    if (distance >= this.CIRCLE_RADIUS - this.ballRadius) {
-      // Handle collision
-      const nx = dx / distance;
-      const ny = dy / distance;
-      const dot = this.ballVelocity[0] * nx + this.ballVelocity[1] * ny;
-      const restitution = 0.95;
-
-      this.ballVelocity[0] = (this.ballVelocity[0] - 2 * dot * nx) * restitution;
-      this.ballVelocity[1] = (this.ballVelocity[1] - 2 * dot * ny) * restitution;
-
-      // Grow ball
-      if (this.ballRadius < this.MAX_BALL_RADIUS) {
-        this.ballRadius = Math.min(
-          this.ballRadius * this.BALL_GROWTH_RATE,
-          this.MAX_BALL_RADIUS
-        );
+      // Limit motion blur history
+      if (ball.previousPositions.length >= this.MOTION_BLUR_STEPS) {
+        ball.previousPositions.shift();
       }
+      ball.previousPositions.push([...ball.center]);
+
+      // Apply physics
+      ball.velocity[1] += this.GRAVITY;
+      ball.velocity[0] *= this.VELOCITY_DECAY;
+      ball.velocity[1] *= this.VELOCITY_DECAY;
+      ball.center[0] += ball.velocity[0];
+      ball.center[1] += ball.velocity[1];
+    }
 
-      // Increase velocity
-      this.ballVelocity[0] *= this.VELOCITY_INCREASE_FACTOR;
-      this.ballVelocity[1] *= this.VELOCITY_INCREASE_FACTOR;
-
-      // Ensure minimum velocity
-      const minVelocity = 1.0;
-      const currentVelocity = Math.sqrt(this.ballVelocity[0]**2 + this.ballVelocity[1]**2);
-      if (currentVelocity < minVelocity) {
-        const scale = minVelocity / currentVelocity;
-        this.ballVelocity[0] *= scale;
-        this.ballVelocity[1] *= scale;
-      }
+    this.resolveBallCollisions();
 
-      // Add collision point
-      const angle = Math.atan2(dy, dx);
-      const collisionX = circleCenter[0] + this.CIRCLE_RADIUS * Math.cos(angle);
-      const collisionY = circleCenter[1] + this.CIRCLE_RADIUS * Math.sin(angle);
-      
-      // Manage collision points
-      if (this.collisionPoints.length >= this.MAX_COLLISION_POINTS) {
-        this.collisionPoints.shift();
+    this.balls.forEach((ball, index) => this.resolveWallCollision(ball, index));
+
+    this.checkEndConditions();
+  }
+
+  private checkEndConditions() {
+    const { maxRadius, escape, collisionCount, timeLimit } = this.endConditions;
+
+    const grownBall = maxRadius ? this.balls.findIndex(ball => ball.radius >= this.MAX_BALL_RADIUS) : -1;
+    const escapedBall = escape ? this.balls.findIndex(ball => ball.escaped) : -1;
+
+    if (escapedBall >= 0) {
+      this.end('escape', escapedBall);
+    } else if (grownBall >= 0) {
+      this.end('max-radius', grownBall);
+    } else if (collisionCount > 0 && this.collisionCount >= collisionCount) {
+      this.end('collisions', null);
+    } else if (timeLimit > 0 && this.elapsedTime >= timeLimit - 1e-9) {
+      this.end('time', null);
+    }
+  }
+
+  private end(reason: EndReason, ballIndex: number | null) {
+    this.endEvent = {
+      reason,
+      time: this.elapsedTime,
+      collisionCount: this.collisionCount,
+      ballIndex
+    };
+
+    // Freeze interpolation on the final state
+    for (const ball of this.balls) {
+      ball.previousCenter = [...ball.center];
+    }
+
+    if (this.onEnd) {
+      this.onEnd(this.endEvent);
+    }
+  }
+
+  // Elastic collisions between balls, with mass proportional to area
+  private resolveBallCollisions() {
+    for (let i = 0; i < this.balls.length; i++) {
+      for (let j = i + 1; j < this.balls.length; j++) {
+        const a = this.balls[i];
+        const b = this.balls[j];
+        const dx = b.center[0] - a.center[0];
+        const dy = b.center[1] - a.center[1];
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const minDistance = a.radius + b.radius;
+
+        if (distance === 0 || distance >= minDistance) continue;
+
+        const nx = dx / distance;
+        const ny = dy / distance;
+        const massA = a.radius * a.radius;
+        const massB = b.radius * b.radius;
+
+        // Separate the balls along the normal, proportionally to the other ball's mass
+        const overlap = minDistance - distance;
+        const totalMass = massA + massB;
+        a.center[0] -= nx * overlap * (massB / totalMass);
+        a.center[1] -= ny * overlap * (massB / totalMass);
+        b.center[0] += nx * overlap * (massA / totalMass);
+        b.center[1] += ny * overlap * (massA / totalMass);
+
+        // Only exchange momentum if the balls are moving towards each other
+        const relativeVelocity = (b.velocity[0] - a.velocity[0]) * nx + (b.velocity[1] - a.velocity[1]) * ny;
+        if (relativeVelocity >= 0) continue;
+
+        const impulse = (2 * relativeVelocity) / totalMass;
+        a.velocity[0] += impulse * massB * nx;
+        a.velocity[1] += impulse * massB * ny;
+        b.velocity[0] -= impulse * massA * nx;
+        b.velocity[1] -= impulse * massA * ny;
       }
-      this.collisionPoints.push([collisionX, collisionY]);
+    }
+  }
+
+  private resolveWallCollision(ball: Ball, index: number) {
+    if (ball.escaped) return;
 
-      // Update ball position
-      this.ballCenter[0] = circleCenter[0] + (this.CIRCLE_RADIUS - this.ballRadius) * Math.cos(angle);
-      this.ballCenter[1] = circleCenter[1] + (this.CIRCLE_RADIUS - this.ballRadius) * Math.sin(angle);
+    const collision = this.container.getCollision(ball.center, ball.radius, ball.previousCenter);
 
-      if (this.onCollision) {
-        this.onCollision();
+    if (!collision) {
+      if (this.container.hasEscaped(ball.center, ball.radius)) {
+        ball.escaped = true;
       }
+      return;
+    }
+
+    // Handle collision, reflecting the velocity relative to the (possibly rotating) wall
+    const [nx, ny] = collision.normal;
+    const [wallVelocityX, wallVelocityY] = collision.wallVelocity;
+    const relativeX = ball.velocity[0] - wallVelocityX;
+    const relativeY = ball.velocity[1] - wallVelocityY;
+    const dot = relativeX * nx + relativeY * ny;
+    const restitution = 0.95;
+    // Captured before the bounce so sound can follow how hard the ball hit
+    const impactSpeed = Math.max(0, dot) / this.FIXED_TIMESTEP;
+    const impactRadius = ball.radius;
+
+    ball.velocity[0] = (relativeX - 2 * dot * nx) * restitution + wallVelocityX;
+    ball.velocity[1] = (relativeY - 2 * dot * ny) * restitution + wallVelocityY;
+
+    // Grow ball
+    if (ball.radius < this.MAX_BALL_RADIUS) {
+      ball.radius = Math.min(
+        ball.radius * this.BALL_GROWTH_RATE,
+        this.MAX_BALL_RADIUS
+      );
+    }
+
+    // Increase velocity
+    ball.velocity[0] *= this.VELOCITY_INCREASE_FACTOR;
+    ball.velocity[1] *= this.VELOCITY_INCREASE_FACTOR;
+
+    // Ensure minimum velocity
+    const minVelocity = 1.0;
+    const currentVelocity = Math.sqrt(ball.velocity[0]**2 + ball.velocity[1]**2);
+    if (currentVelocity < minVelocity) {
+      const scale = minVelocity / currentVelocity;
+      ball.velocity[0] *= scale;
+      ball.velocity[1] *= scale;
+    }
+
+    // Manage collision points
+    if (ball.collisionPoints.length >= this.MAX_COLLISION_POINTS) {
+      ball.collisionPoints.shift();
+    }
+    ball.collisionPoints.push(collision.contactPoint);
+
+    // Update ball position
+    ball.center[0] = collision.correctedCenter[0];
+    ball.center[1] = collision.correctedCenter[1];
+
+    this.collisionCount++;
+
+    if (this.onCollision) {
+      const [contactX, contactY] = collision.contactPoint;
+      const angle = Math.atan2(contactX - this.WIDTH / 2, this.HEIGHT / 2 - contactY);
+      this.onCollision({
+        ballIndex: index,
+        time: this.elapsedTime,
+        impactSpeed,
+        radius: impactRadius,
+        angle: angle < 0 ? angle + 2 * Math.PI : angle
+      });
     }
   }
 
-  private draw() {
+  private draw(alpha: number = 1) {
     // Clear and fill background
     this.offscreenCtx.fillStyle = 'black';
     this.offscreenCtx.fillRect(0, 0, this.WIDTH, this.HEIGHT);
 
     const circleCenter: [number, number] = [this.WIDTH / 2, this.HEIGHT / 2];
 
-    // Draw main circle
-    this.offscreenCtx.strokeStyle = this.simulationColor;
-    this.offscreenCtx.lineWidth = 25;
-    this.offscreenCtx.beginPath();
-    this.offscreenCtx.arc(circleCenter[0], circleCenter[1], this.CIRCLE_RADIUS + 12.5, 0, Math.PI * 2);
-    this.offscreenCtx.stroke();
+    // Draw container
+    this.container.draw(this.offscreenCtx, this.simulationColor, alpha);
+
+    // Interpolate between the last two physics states for smooth rendering
+    const ballPositions = this.balls.map(ball => [
+      ball.previousCenter[0] + (ball.center[0] - ball.previousCenter[0]) * alpha,
+      ball.previousCenter[1] + (ball.center[1] - ball.previousCenter[1]) * alpha
+    ]);
 
     // Draw collision lines
-    this.offscreenCtx.strokeStyle = this.simulationColor;
     this.offscreenCtx.lineWidth = 2;
-    for (const point of this.collisionPoints) {
-      this.offscreenCtx.beginPath();
-      this.offscreenCtx.moveTo(point[0], point[1]);
-      this.offscreenCtx.lineTo(this.ballCenter[0], this.ballCenter[1]);
-      this.offscreenCtx.stroke();
-    }
+    this.balls.forEach((ball, index) => {
+      const [ballX, ballY] = ballPositions[index];
+      this.offscreenCtx.strokeStyle = ball.color;
+      for (const point of ball.collisionPoints) {
+        this.offscreenCtx.beginPath();
+        this.offscreenCtx.moveTo(point[0], point[1]);
+        this.offscreenCtx.lineTo(ballX, ballY);
+        this.offscreenCtx.stroke();
+      }
+    });
 
     // Draw text elements
     for (const text of this.textElements) {
@@ -327,39 +609,89 @@ export class CircleSimulation {
       circleCenter[1] + this.CIRCLE_RADIUS + 60
     );
 
-    // Draw motion blur
-    this.previousPositions.forEach((pos, index) => {
-      const alpha = (index + 1) / this.MOTION_BLUR_STEPS;
-      this.offscreenCtx.fillStyle = `${this.simulationColor}${Math.floor(alpha * 33).toString(16).padStart(2, '0')}`;
+    this.balls.forEach((ball, ballIndex) => {
+      // Draw motion blur
+      ball.previousPositions.forEach((pos, index) => {
+        const alpha = (index + 1) / this.MOTION_BLUR_STEPS;
+        this.offscreenCtx.fillStyle = `${ball.color}${Math.floor(alpha * 33).toString(16).padStart(2, '0')}`;
+        this.offscreenCtx.beginPath();
+        this.offscreenCtx.arc(pos[0], pos[1], ball.radius, 0, Math.PI * 2);
+        this.offscreenCtx.fill();
+      });
+
+      // Draw ball
+      const [ballX, ballY] = ballPositions[ballIndex];
+      this.offscreenCtx.fillStyle = ball.color;
       this.offscreenCtx.beginPath();
-      this.offscreenCtx.arc(pos[0], pos[1], this.ballRadius, 0, Math.PI * 2);
+      this.offscreenCtx.arc(ballX, ballY, ball.radius, 0, Math.PI * 2);
       this.offscreenCtx.fill();
     });
 
-    // Draw ball
-    this.offscreenCtx.fillStyle = this.simulationColor;
-    this.offscreenCtx.beginPath();
-    this.offscreenCtx.arc(this.ballCenter[0], this.ballCenter[1], this.ballRadius, 0, Math.PI * 2);
-    this.offscreenCtx.fill();
+    if (this.endEvent) {
+      this.drawEndCard(this.endEvent);
+    }
 
     // Copy to main canvas
     this.ctx.drawImage(this.offscreenCanvas, 0, 0);
   }
 
-  private animate = () => {
+  private drawEndCard(event: EndEvent) {
+    const titles: Record<EndReason, string> = {
+      'max-radius': 'Max size reached!',
+      'escape': 'Escaped!',
+      'collisions': `${event.collisionCount} bounces!`,
+      'time': 'Time\'s up!'
+    };
+    const color = event.ballIndex !== null ? this.balls[event.ballIndex].color : this.simulationColor;
+    const centerX = this.WIDTH / 2;
+    const centerY = this.HEIGHT / 2;
+
+    this.offscreenCtx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    this.offscreenCtx.fillRect(0, 0, this.WIDTH, this.HEIGHT);
+
+    this.offscreenCtx.textAlign = 'center';
+    this.offscreenCtx.textBaseline = 'middle';
+    this.offscreenCtx.fillStyle = color;
+    this.offscreenCtx.font = 'bold 96px Arial';
+    this.offscreenCtx.fillText(titles[event.reason], centerX, centerY - 40);
+
+    this.offscreenCtx.fillStyle = 'white';
+    this.offscreenCtx.font = '40px Arial';
+    this.offscreenCtx.fillText(
+      `${event.time.toFixed(1)}s · ${event.collisionCount} bounces`,
+      centerX,
+      centerY + 60
+    );
+  }
+
+  private animate = (timestamp: number) => {
     if (!this.running) return;
-    
-    this.update();
-    this.draw();
+
+    // Clamp long frames (tab switches, jank) to avoid a spiral of catch-up steps
+    const frameTime = Math.min((timestamp - this.lastFrameTime) / 1000, this.MAX_FRAME_TIME);
+    this.lastFrameTime = timestamp;
+    this.renderFrame(Math.max(frameTime, 0));
     this.animationId = requestAnimationFrame(this.animate);
   };
 
-  public start() {
-    if (!this.running) {
-      this.startTime = performance.now() - (this.elapsedTime * 1000);
+  // Advances physics by `frameTime` seconds and draws the result. Used directly by offline rendering.
+  public renderFrame(frameTime: number) {
+    this.accumulator += frameTime;
+
+    // Small tolerance so that 1/60s frames always map to exactly one step despite float error
+    while (this.accumulator >= this.FIXED_TIMESTEP - 1e-9) {
+      this.update();
+      this.accumulator -= this.FIXED_TIMESTEP;
     }
+
+    this.draw(Math.max(this.accumulator, 0) / this.FIXED_TIMESTEP);
+  }
+
+  public start() {
+    if (this.running) return;
     this.running = true;
-    this.animate();
+    this.lastFrameTime = performance.now();
+    this.animationId = requestAnimationFrame(this.animate);
   }
 
   public stop() {
@@ -372,21 +704,29 @@ export class CircleSimulation {
   }
 
   public handleMouseDown(x: number, y: number) {
-    const dx = x - this.ballCenter[0];
-    const dy = y - this.ballCenter[1];
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    if (distance <= this.ballRadius) {
-      this.isDragging = true;
-      this.stop();
+    // Pick the topmost ball under the cursor (balls are drawn in order)
+    for (let i = this.balls.length - 1; i >= 0; i--) {
+      const ball = this.balls[i];
+      const dx = x - ball.center[0];
+      const dy = y - ball.center[1];
+      const distance = Math.sqrt(dx * dx + dy * dy);
+
+      if (distance <= ball.radius) {
+        this.isDragging = true;
+        this.draggedBallIndex = i;
+        this.stop();
+        return;
+      }
     }
   }
 
   public handleMouseMove(x: number, y: number) {
-    if (this.isDragging) {
-      this.ballCenter[0] = x;
-      this.ballCenter[1] = y;
-      this.ballVelocity = [0, 0];
+    const ball = this.balls[this.draggedBallIndex];
+    if (this.isDragging && ball) {
+      ball.center[0] = x;
+      ball.center[1] = y;
+      ball.previousCenter = [x, y];
+      ball.velocity = [0, 0];
       this.draw();
     }
   }
@@ -394,7 +734,23 @@ export class CircleSimulation {
   public handleMouseUp() {
     if (this.isDragging) {
       this.isDragging = false;
+      this.draggedBallIndex = -1;
       this.start();
     }
   }
 }
+
+// Hue in degrees of a #rgb or #rrggbb color, or null for other formats
+function getHue(color: string): number | null {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+  if (!match) return null;
+
+  const hex = match[1].length === 3 ? match[1].split('').map(digit => digit + digit).join('') : match[1];
+  const [r, g, b] = [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) return 0;
+
+  const hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return (hue * 60 + 360) % 360;
+}
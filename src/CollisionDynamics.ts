@@ -0,0 +1,72 @@
+import { CollisionEvent, DynamicsConfig, DynamicsCurve, DynamicsMapping, DynamicsTarget } from './types';
+
+// Audio parameters for one collision; neutral values leave playback unchanged
+export interface CollisionDynamics {
+  gain: number;
+  velocity: number;
+  // Semitones
+  pitch: number;
+  // Lowpass cutoff in Hz, or null when the filter is off
+  filterCutoff: number | null;
+}
+
+export const NEUTRAL_DYNAMICS: CollisionDynamics = { gain: 1, velocity: 1, pitch: 0, filterCutoff: null };
+
+export const DYNAMICS_TARGET_LABELS: Record<DynamicsTarget, string> = {
+  gain: 'Gain',
+  velocity: 'Note velocity',
+  pitch: 'Pitch (semitones)',
+  filter: 'Filter cutoff (Hz)'
+};
+
+export const DYNAMICS_CURVE_LABELS: Record<DynamicsCurve, string> = {
+  linear: 'Linear',
+  exponential: 'Exponential',
+  logarithmic: 'Logarithmic',
+  's-curve': 'S-curve'
+};
+
+export const DEFAULT_DYNAMICS: DynamicsConfig = {
+  gain: { enabled: true, source: 'speed', curve: 'linear', inputMin: 0, inputMax: 1500, outputMin: 0.3, outputMax: 1 },
+  velocity: { enabled: true, source: 'speed', curve: 'linear', inputMin: 0, inputMax: 1500, outputMin: 0.3, outputMax: 1 },
+  pitch: { enabled: false, source: 'radius', curve: 'linear', inputMin: 5, inputMax: 300, outputMin: 0, outputMax: -12 },
+  filter: { enabled: false, source: 'speed', curve: 'linear', inputMin: 0, inputMax: 1500, outputMin: 500, outputMax: 16000 }
+};
+
+// Shapes a normalized value in [0, 1]. Exponential favors hard hits, logarithmic lifts soft ones.
+function applyCurve(curve: DynamicsCurve, x: number): number {
+  switch (curve) {
+    case 'exponential':
+      return (Math.pow(10, x) - 1) / 9;
+    case 'logarithmic':
+      return Math.log10(1 + 9 * x);
+    case 's-curve':
+      return x * x * (3 - 2 * x);
+    default:
+      return x;
+  }
+}
+
+function mapValue(mapping: DynamicsMapping, event: CollisionEvent, logarithmicOutput: boolean = false): number {
+  const input = mapping.source === 'speed' ? event.impactSpeed : event.radius;
+  const span = mapping.inputMax - mapping.inputMin;
+  const x = span === 0 ? 1 : Math.max(0, Math.min(1, (input - mapping.inputMin) / span));
+  const y = applyCurve(mapping.curve, x);
+
+  if (logarithmicOutput && mapping.outputMin > 0 && mapping.outputMax > 0) {
+    return mapping.outputMin * Math.pow(mapping.outputMax / mapping.outputMin, y);
+  }
+  return mapping.outputMin + y * (mapping.outputMax - mapping.outputMin);
+}
+
+export function resolveDynamics(config: DynamicsConfig, event: CollisionEvent): CollisionDynamics {
+  return {
+    gain: config.gain.enabled ? Math.max(0, mapValue(config.gain, event)) : NEUTRAL_DYNAMICS.gain,
+    velocity: config.velocity.enabled
+      ? Math.max(0, Math.min(1, mapValue(config.velocity, event)))
+      : NEUTRAL_DYNAMICS.velocity,
+    pitch: config.pitch.enabled ? mapValue(config.pitch, event) : NEUTRAL_DYNAMICS.pitch,
+    // Cutoff is interpolated on a log scale so equal steps sound like equal changes
+    filterCutoff: config.filter.enabled ? mapValue(config.filter, event, true) : NEUTRAL_DYNAMICS.filterCutoff
+  };
+}
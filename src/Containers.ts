@@ -0,0 +1,295 @@
+import { ContainerConfig } from './types';
+
+export interface ContainerCollision {
+  // Unit normal pointing out of the container at the contact point
+  normal: [number, number];
+  contactPoint: [number, number];
+  // Ball center moved back inside the container, touching the wall
+  correctedCenter: [number, number];
+  // Velocity of the wall at the contact point (non-zero for rotating containers)
+  wallVelocity: [number, number];
+}
+
+export abstract class Container {
+  protected readonly center: [number, number];
+  protected readonly radius: number;
+  protected rotation: number = 0;
+  protected previousRotation: number = 0;
+  private timestep: number = 1 / 60;
+  private readonly rotationSpeed: number;
+  private readonly gapSize: number;
+  // The gap is centered at the top of the container, in container-local coordinates
+  private readonly gapAngle = -Math.PI / 2;
+
+  protected readonly WALL_WIDTH = 25;
+
+  constructor(center: [number, number], radius: number, config: ContainerConfig) {
+    this.center = center;
+    this.radius = radius;
+    this.rotationSpeed = (config.rotationSpeed * Math.PI) / 180;
+    this.gapSize = (Math.max(0, Math.min(config.gapSize, 359)) * Math.PI) / 180;
+  }
+
+  public update(timestep: number) {
+    this.timestep = timestep;
+    this.previousRotation = this.rotation;
+    this.rotation += this.rotationSpeed * timestep;
+  }
+
+  // `previousCenter` is the ball center before this step; a ball that was already past the wall can only
+  // have got there through the gap, so it is let through instead of being pulled back inside
+  public abstract getCollision(
+    ballCenter: [number, number],
+    ballRadius: number,
+    previousCenter: [number, number]
+  ): ContainerCollision | null;
+
+  // True once the ball has fully left the container (only possible through the gap)
+  public abstract hasEscaped(ballCenter: [number, number], ballRadius: number): boolean;
+
+  protected abstract tracePath(ctx: CanvasRenderingContext2D, rotation: number): void;
+
+  // Distance from the center to the wall along a container-local angle
+  protected abstract getWallDistance(localAngle: number): number;
+
+  public draw(ctx: CanvasRenderingContext2D, color: string, alpha: number = 1) {
+    const rotation = this.previousRotation + (this.rotation - this.previousRotation) * alpha;
+
+    ctx.save();
+    if (this.gapSize > 0) {
+      // Clip away a wedge around the gap so the wall is not drawn there
+      const gapStart = rotation + this.gapAngle - this.gapSize / 2;
+      ctx.beginPath();
+      ctx.moveTo(this.center[0], this.center[1]);
+      ctx.arc(this.center[0], this.center[1], this.radius * 2, gapStart + this.gapSize, gapStart + Math.PI * 2);
+      ctx.closePath();
+      ctx.clip();
+    }
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = this.WALL_WIDTH;
+    ctx.beginPath();
+    this.tracePath(ctx, rotation);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  protected hasGap(): boolean {
+    return this.gapSize > 0;
+  }
+
+  // True when a ball of `ballRadius` touching the wall at `point` fits through the gap, i.e. its
+  // angular half-width seen from the center lies inside the gap's half-angle
+  protected isInGap(point: [number, number], ballRadius: number = 0): boolean {
+    if (this.gapSize <= 0) return false;
+
+    const angle = Math.atan2(point[1] - this.center[1], point[0] - this.center[0]) - this.rotation;
+    let difference = (angle - this.gapAngle) % (Math.PI * 2);
+    if (difference > Math.PI) difference -= Math.PI * 2;
+    if (difference < -Math.PI) difference += Math.PI * 2;
+    const halfWidth = Math.asin(Math.min(1, ballRadius / this.radius));
+    return Math.abs(difference) + halfWidth <= this.gapSize / 2;
+  }
+
+  // The wall ends on either side of the gap act as points the ball can bounce off
+  protected getGapEdgeCollision(ballCenter: [number, number], ballRadius: number): ContainerCollision | null {
+    if (this.gapSize <= 0) return null;
+
+    let nearest: { distance: number; point: [number, number] } | null = null;
+    for (const side of [-1, 1]) {
+      const localAngle = this.gapAngle + (side * this.gapSize) / 2;
+      const wallDistance = this.getWallDistance(localAngle);
+      const point: [number, number] = [
+        this.center[0] + wallDistance * Math.cos(localAngle + this.rotation),
+        this.center[1] + wallDistance * Math.sin(localAngle + this.rotation)
+      ];
+      const distance = Math.hypot(point[0] - ballCenter[0], point[1] - ballCenter[1]);
+      if (distance < ballRadius && distance > 0 && (!nearest || distance < nearest.distance)) {
+        nearest = { distance, point };
+      }
+    }
+    if (!nearest) return null;
+
+    const { distance, point } = nearest;
+    const normal: [number, number] = [(point[0] - ballCenter[0]) / distance, (point[1] - ballCenter[1]) / distance];
+    return {
+      normal,
+      contactPoint: point,
+      correctedCenter: [point[0] - normal[0] * ballRadius, point[1] - normal[1] * ballRadius],
+      wallVelocity: this.getWallVelocity(point)
+    };
+  }
+
+  protected getWallVelocity(point: [number, number]): [number, number] {
+    // Tangential velocity of a point on a rigid body rotating around the center, per physics step
+    const omega = this.rotationSpeed * this.timestep;
+    return [
+      -omega * (point[1] - this.center[1]),
+      omega * (point[0] - this.center[0])
+    ];
+  }
+}
+
+export class CircleContainer extends Container {
+  public getCollision(
+    ballCenter: [number, number],
+    ballRadius: number,
+    previousCenter: [number, number]
+  ): ContainerCollision | null {
+    const dx = ballCenter[0] - this.center[0];
+    const dy = ballCenter[1] - this.center[1];
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (distance < this.radius - ballRadius || distance === 0) return null;
+    if (this.hasGap() && Math.hypot(previousCenter[0] - this.center[0], previousCenter[1] - this.center[1]) > this.radius) {
+      return this.getGapEdgeCollision(ballCenter, ballRadius);
+    }
+
+    const angle = Math.atan2(dy, dx);
+    const contactPoint: [number, number] = [
+      this.center[0] + this.radius * Math.cos(angle),
+      this.center[1] + this.radius * Math.sin(angle)
+    ];
+    if (this.isInGap(contactPoint, ballRadius)) return this.getGapEdgeCollision(ballCenter, ballRadius);
+
+    return {
+      normal: [dx / distance, dy / distance],
+      contactPoint,
+      correctedCenter: [
+        this.center[0] + (this.radius - ballRadius) * Math.cos(angle),
+        this.center[1] + (this.radius - ballRadius) * Math.sin(angle)
+      ],
+      wallVelocity: this.getWallVelocity(contactPoint)
+    };
+  }
+
+  public hasEscaped(ballCenter: [number, number], ballRadius: number): boolean {
+    const distance = Math.hypot(ballCenter[0] - this.center[0], ballCenter[1] - this.center[1]);
+    return distance > this.radius + ballRadius;
+  }
+
+  protected getWallDistance(): number {
+    return this.radius;
+  }
+
+  protected tracePath(ctx: CanvasRenderingContext2D) {
+    ctx.arc(this.center[0], this.center[1], this.radius + this.WALL_WIDTH / 2, 0, Math.PI * 2);
+  }
+}
+
+export class PolygonContainer extends Container {
+  private readonly sides: number;
+
+  constructor(center: [number, number], radius: number, config: ContainerConfig, sides: number) {
+    super(center, radius, config);
+    this.sides = sides;
+  }
+
+  // Vertices of the polygon with the given circumradius, first vertex pointing up
+  private getVertices(circumradius: number, rotation: number): Array<[number, number]> {
+    const vertices: Array<[number, number]> = [];
+    for (let i = 0; i < this.sides; i++) {
+      const angle = rotation - Math.PI / 2 + (i * Math.PI * 2) / this.sides;
+      vertices.push([
+        this.center[0] + circumradius * Math.cos(angle),
+        this.center[1] + circumradius * Math.sin(angle)
+      ]);
+    }
+    return vertices;
+  }
+
+  public getCollision(
+    ballCenter: [number, number],
+    ballRadius: number,
+    previousCenter: [number, number]
+  ): ContainerCollision | null {
+    const vertices = this.getVertices(this.radius, this.rotation);
+    if (this.hasGap() && this.isOutside(vertices, previousCenter, 0)) {
+      return this.getGapEdgeCollision(ballCenter, ballRadius);
+    }
+
+    let deepest: { penetration: number; contactPoint: [number, number]; normal: [number, number] } | null = null;
+
+    for (let i = 0; i < vertices.length; i++) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % vertices.length];
+      const edgeX = b[0] - a[0];
+      const edgeY = b[1] - a[1];
+      const edgeLength = Math.hypot(edgeX, edgeY);
+
+      // Outward normal: vertices run clockwise on screen, so rotate the edge to the left
+      const normal: [number, number] = [edgeY / edgeLength, -edgeX / edgeLength];
+      const distanceInside = -((ballCenter[0] - a[0]) * normal[0] + (ballCenter[1] - a[1]) * normal[1]);
+      const penetration = ballRadius - distanceInside;
+      if (penetration <= 0) continue;
+
+      const t = Math.max(0, Math.min(1,
+        ((ballCenter[0] - a[0]) * edgeX + (ballCenter[1] - a[1]) * edgeY) / (edgeLength * edgeLength)
+      ));
+      const contactPoint: [number, number] = [a[0] + edgeX * t, a[1] + edgeY * t];
+      if (this.isInGap(contactPoint, ballRadius)) continue;
+
+      if (!deepest || penetration > deepest.penetration) {
+        deepest = { penetration, contactPoint, normal };
+      }
+    }
+
+    if (!deepest) return this.getGapEdgeCollision(ballCenter, ballRadius);
+
+    return {
+      normal: deepest.normal,
+      contactPoint: deepest.contactPoint,
+      correctedCenter: [
+        ballCenter[0] - deepest.normal[0] * deepest.penetration,
+        ballCenter[1] - deepest.normal[1] * deepest.penetration
+      ],
+      wallVelocity: this.getWallVelocity(deepest.contactPoint)
+    };
+  }
+
+  public hasEscaped(ballCenter: [number, number], ballRadius: number): boolean {
+    return this.isOutside(this.getVertices(this.radius, this.rotation), ballCenter, ballRadius);
+  }
+
+  protected getWallDistance(localAngle: number): number {
+    // Distance to the edge the angle falls on, measured from the nearest vertex (the first points up)
+    const sector = (Math.PI * 2) / this.sides;
+    const fromVertex = (((localAngle + Math.PI / 2) % sector) + sector) % sector;
+    return (this.radius * Math.cos(sector / 2)) / Math.cos(fromVertex - sector / 2);
+  }
+
+  // Outside any edge's line by more than `margin` means outside the convex polygon
+  private isOutside(vertices: Array<[number, number]>, point: [number, number], margin: number): boolean {
+    return vertices.some((a, i) => {
+      const b = vertices[(i + 1) % vertices.length];
+      const edgeLength = Math.hypot(b[0] - a[0], b[1] - a[1]);
+      const normal: [number, number] = [(b[1] - a[1]) / edgeLength, -(b[0] - a[0]) / edgeLength];
+      return (point[0] - a[0]) * normal[0] + (point[1] - a[1]) * normal[1] > margin;
+    });
+  }
+
+  protected tracePath(ctx: CanvasRenderingContext2D, rotation: number) {
+    // Offset the outline by half the wall width so the inner edge of the stroke is the collision boundary
+    const circumradius = this.radius + this.WALL_WIDTH / 2 / Math.cos(Math.PI / this.sides);
+    const vertices = this.getVertices(circumradius, rotation);
+    ctx.moveTo(vertices[0][0], vertices[0][1]);
+    for (let i = 1; i < vertices.length; i++) {
+      ctx.lineTo(vertices[i][0], vertices[i][1]);
+    }
+    ctx.closePath();
+  }
+}
+
+export function createContainer(config: ContainerConfig, center: [number, number], radius: number): Container {
+  switch (config.shape) {
+    case 'triangle':
+      return new PolygonContainer(center, radius, config, 3);
+    case 'square':
+      return new PolygonContainer(center, radius, config, 4);
+    case 'hexagon':
+      return new PolygonContainer(center, radius, config, 6);
+    case 'circle':
+    default:
+      return new CircleContainer(center, radius, config);
+  }
+}
@@ -0,0 +1,37 @@
+import { ExportFormat } from './types';
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  // MediaRecorder candidates, in order of preference
+  recorderMimeTypes: string[];
+  // WebCodecs codec strings used by offline rendering
+  videoEncoderCodec: string;
+  audioEncoderCodec: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  webm: {
+    label: 'WebM (VP9/Opus)',
+    extension: 'webm',
+    mimeType: 'video/webm',
+    recorderMimeTypes: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+    videoEncoderCodec: 'vp09.00.10.08',
+    audioEncoderCodec: 'opus'
+  },
+  mp4: {
+    label: 'MP4 (H.264/AAC)',
+    extension: 'mp4',
+    mimeType: 'video/mp4',
+    recorderMimeTypes: ['video/mp4;codecs=avc1.64002A,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a', 'video/mp4'],
+    // High profile, level 4.2: enough for 1080x1920 at 60 fps
+    videoEncoderCodec: 'avc1.64002A',
+    audioEncoderCodec: 'mp4a.40.2'
+  }
+};
+
+export function getRecorderMimeType(format: ExportFormat): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return EXPORT_FORMATS[format].recorderMimeTypes.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
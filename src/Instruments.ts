@@ -0,0 +1,164 @@
+import * as Tone from 'tone';
+import { EnvelopeConfig, InstrumentConfig, InstrumentType } from './types';
+
+export const INSTRUMENT_LABELS: Record<InstrumentType, string> = {
+  synth: 'Synth',
+  fm: 'FM Synth',
+  am: 'AM Synth',
+  pluck: 'Pluck',
+  membrane: 'Membrane',
+  sampler: 'Sampler (WAV)'
+};
+
+export const DEFAULT_INSTRUMENT: InstrumentConfig = {
+  type: 'synth',
+  envelope: { attack: 0.005, decay: 0.1, sustain: 0.3, release: 1 },
+  reverb: { wet: 0, decay: 1.5 },
+  delay: { wet: 0, time: 0.25, feedback: 0.3 },
+  samples: []
+};
+
+// Common surface of the synth presets and the sampler
+interface SoundSource {
+  node: Tone.ToneAudioNode;
+  trigger(note: Tone.Unit.Frequency, duration: Tone.Unit.Time, time?: number, velocity?: number): void;
+  setEnvelope(envelope: EnvelopeConfig): void;
+  dispose(): void;
+}
+
+const PLUCK_VOICES = 8;
+const OPEN_FILTER_CUTOFF = 20000;
+
+// An instrument followed by a lowpass filter, delay and reverb. Nodes are created on Tone's current context,
+// so a chain built inside Tone.Offline renders offline.
+export class InstrumentChain {
+  private source: SoundSource;
+  private readonly filter: Tone.Filter;
+  private readonly delay: Tone.FeedbackDelay;
+  private readonly reverb: Tone.Reverb;
+
+  // `sampleBuffers` maps sample names from the config to decoded audio
+  constructor(config: InstrumentConfig, sampleBuffers: Map<string, AudioBuffer>) {
+    this.source = createSource(config, sampleBuffers);
+    this.filter = new Tone.Filter(OPEN_FILTER_CUTOFF, 'lowpass');
+    this.delay = new Tone.FeedbackDelay();
+    this.reverb = new Tone.Reverb();
+    this.source.node.chain(this.filter, this.delay, this.reverb);
+    this.update(config);
+  }
+
+  public connect(destination: Tone.InputNode): this {
+    this.reverb.connect(destination);
+    return this;
+  }
+
+  public toDestination(): this {
+    this.reverb.toDestination();
+    return this;
+  }
+
+  // Applies envelope and effect settings; a different instrument type needs a new chain
+  public update(config: InstrumentConfig) {
+    this.source.setEnvelope(config.envelope);
+    this.delay.set({
+      delayTime: config.delay.time,
+      feedback: config.delay.feedback,
+      wet: config.delay.wet
+    });
+    // Changing the decay regenerates the impulse response, so only do it when needed
+    if (this.reverb.decay !== config.reverb.decay) {
+      this.reverb.decay = config.reverb.decay;
+    }
+    this.reverb.wet.value = config.reverb.wet;
+  }
+
+  // Resolves once the reverb impulse response has been generated
+  public async ready(): Promise<void> {
+    await this.reverb.ready;
+  }
+
+  // Sets the lowpass cutoff for notes starting at `time`; null opens the filter
+  public setFilterCutoff(cutoff: number | null, time?: number) {
+    this.filter.frequency.setValueAtTime(cutoff ?? OPEN_FILTER_CUTOFF, time ?? Tone.now());
+  }
+
+  public triggerAttackRelease(note: Tone.Unit.Frequency, duration: Tone.Unit.Time, time?: number, velocity?: number) {
+    this.source.trigger(note, duration, time, velocity);
+  }
+
+  public dispose() {
+    this.source.dispose();
+    this.filter.dispose();
+    this.delay.dispose();
+    this.reverb.dispose();
+  }
+}
+
+function createSource(config: InstrumentConfig, sampleBuffers: Map<string, AudioBuffer>): SoundSource {
+  switch (config.type) {
+    case 'fm':
+      return createPolySource(new Tone.PolySynth(Tone.FMSynth));
+    case 'am':
+      return createPolySource(new Tone.PolySynth(Tone.AMSynth));
+    case 'membrane':
+      return createPolySource(new Tone.PolySynth(Tone.MembraneSynth));
+    case 'pluck':
+      return createPluckSource();
+    case 'sampler': {
+      const urls: Record<string, AudioBuffer> = {};
+      for (const sample of config.samples) {
+        const buffer = sampleBuffers.get(sample.name);
+        if (buffer) urls[sample.note] = buffer;
+      }
+      // Without samples the sampler would be silent, so fall back to the default synth
+      return Object.keys(urls).length > 0
+        ? createSamplerSource(new Tone.Sampler({ urls }))
+        : createPolySource(new Tone.PolySynth(Tone.Synth));
+    }
+    default:
+      return createPolySource(new Tone.PolySynth(Tone.Synth));
+  }
+}
+
+function createPolySource(synth: Tone.PolySynth<Tone.Synth | Tone.FMSynth | Tone.AMSynth>): SoundSource {
+  return {
+    node: synth,
+    trigger: (note, duration, time, velocity) => synth.triggerAttackRelease(note, duration, time, velocity),
+    setEnvelope: (envelope) => synth.set({ envelope }),
+    dispose: () => synth.dispose()
+  };
+}
+
+function createSamplerSource(sampler: Tone.Sampler): SoundSource {
+  return {
+    node: sampler,
+    trigger: (note, duration, time, velocity) => sampler.triggerAttackRelease(note, duration, time, velocity),
+    // The sampler only has attack and release; the sample itself shapes the rest
+    setEnvelope: (envelope) => {
+      sampler.attack = envelope.attack;
+      sampler.release = envelope.release;
+    },
+    dispose: () => sampler.dispose()
+  };
+}
+
+// PluckSynth is monophonic and cannot be used inside a PolySynth, so voices are cycled instead
+function createPluckSource(): SoundSource {
+  const output = new Tone.Gain();
+  const voices = Array.from({ length: PLUCK_VOICES }, () => new Tone.PluckSynth().connect(output));
+  let nextVoice = 0;
+
+  return {
+    node: output,
+    trigger: (note, duration, time) => {
+      voices[nextVoice].triggerAttackRelease(note, duration, time);
+      nextVoice = (nextVoice + 1) % voices.length;
+    },
+    // A plucked string has no sustain stage; the release sets how long it rings after the note
+    setEnvelope: (envelope) => voices.forEach(voice => { voice.release = envelope.release; }),
+    dispose: () => {
+      voices.forEach(voice => voice.dispose());
+      output.dispose();
+    }
+  };
+}
@@ -0,0 +1,149 @@
+import { SeededRandom } from './SeededRandom';
+import { MasterBusConfig } from './types';
+
+export const DEFAULT_MASTER_BUS: MasterBusConfig = {
+  volume: 0.9,
+  compressor: { enabled: true, threshold: -18, ratio: 3 },
+  limiter: { enabled: true, ceiling: -1 },
+  reverb: { wet: 0, decay: 2 }
+};
+
+// Levels in dBFS; -Infinity is silence
+export interface MasterLevels {
+  peak: number;
+  rms: number;
+}
+
+const METER_FFT_SIZE = 2048;
+const SILENCE_DB = -Infinity;
+const CLIP_CURVE_SIZE = 4097;
+// Fixed so every bus, live or offline, gets the same impulse response for a given decay
+const REVERB_NOISE_SEED = 0x5eed;
+
+// The last stage before the speakers and the recording: compressor, optional reverb, volume and a
+// limiter, with an analyser for the meters. The limiter is a fast compressor followed by a hard
+// clip at the ceiling, which catches the peaks the compressor lets through. Built from plain Web Audio nodes so the
+// same bus can be created on an OfflineAudioContext for offline rendering.
+export class MasterBus {
+  public readonly input: GainNode;
+  private readonly context: BaseAudioContext;
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly reverb: ConvolverNode;
+  private readonly reverbWet: GainNode;
+  private readonly volume: GainNode;
+  private readonly limiter: DynamicsCompressorNode;
+  private readonly clipper: WaveShaperNode;
+  private readonly analyser: AnalyserNode;
+  private readonly meterData: Float32Array;
+  private config: MasterBusConfig = DEFAULT_MASTER_BUS;
+  private reverbDecay: number | null = null;
+
+  constructor(context: BaseAudioContext, config: MasterBusConfig = DEFAULT_MASTER_BUS) {
+    this.context = context;
+    this.input = context.createGain();
+    this.compressor = context.createDynamicsCompressor();
+    this.reverb = context.createConvolver();
+    this.reverbWet = context.createGain();
+    this.volume = context.createGain();
+    this.limiter = context.createDynamicsCompressor();
+    this.clipper = context.createWaveShaper();
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = METER_FFT_SIZE;
+    this.meterData = new Float32Array(METER_FFT_SIZE);
+
+    // The reverb is a send: the dry signal always passes and the wet level is mixed on top
+    this.input.connect(this.compressor);
+    this.compressor.connect(this.volume);
+    this.compressor.connect(this.reverb);
+    this.reverb.connect(this.reverbWet);
+    this.reverbWet.connect(this.volume);
+    this.volume.connect(this.limiter);
+    this.limiter.connect(this.clipper);
+    this.clipper.connect(this.analyser);
+
+    this.update(config);
+  }
+
+  public connect(destination: AudioNode): this {
+    this.analyser.connect(destination);
+    return this;
+  }
+
+  public getConfig(): MasterBusConfig {
+    return this.config;
+  }
+
+  public update(config: MasterBusConfig) {
+    this.config = config;
+    const now = this.context.currentTime;
+
+    this.volume.gain.setTargetAtTime(Math.max(0, config.volume), now, 0.02);
+
+    // A ratio of 1 leaves the signal untouched, which bypasses the stage without rewiring
+    this.compressor.threshold.setValueAtTime(config.compressor.enabled ? config.compressor.threshold : 0, now);
+    this.compressor.ratio.setValueAtTime(config.compressor.enabled ? config.compressor.ratio : 1, now);
+
+    this.limiter.threshold.setValueAtTime(config.limiter.enabled ? config.limiter.ceiling : 0, now);
+    this.limiter.ratio.setValueAtTime(config.limiter.enabled ? 20 : 1, now);
+    this.limiter.knee.setValueAtTime(0, now);
+    this.limiter.attack.setValueAtTime(0.001, now);
+    this.limiter.release.setValueAtTime(0.1, now);
+    // Without a curve the shaper passes the signal through unchanged
+    this.clipper.curve = config.limiter.enabled ? createClipCurve(config.limiter.ceiling) : null;
+
+    this.reverbWet.gain.setTargetAtTime(Math.max(0, config.reverb.wet), now, 0.02);
+    // Generating the impulse response is costly, so only do it when the decay changes
+    if (this.reverbDecay !== config.reverb.decay) {
+      this.reverbDecay = config.reverb.decay;
+      this.reverb.buffer = this.createImpulse(config.reverb.decay);
+    }
+  }
+
+  // Peak and RMS of the most recent output, for the level meters
+  public getLevels(): MasterLevels {
+    this.analyser.getFloatTimeDomainData(this.meterData);
+    let peak = 0;
+    let sum = 0;
+    for (const sample of this.meterData) {
+      peak = Math.max(peak, Math.abs(sample));
+      sum += sample * sample;
+    }
+    return { peak: toDecibels(peak), rms: toDecibels(Math.sqrt(sum / this.meterData.length)) };
+  }
+
+  public dispose() {
+    [this.input, this.compressor, this.reverb, this.reverbWet, this.volume, this.limiter, this.clipper, this.analyser]
+      .forEach(node => node.disconnect());
+  }
+
+  // Stereo noise with an exponential decay, reaching -60 dB after `decay` seconds
+  private createImpulse(decay: number): AudioBuffer {
+    const seconds = Math.max(0.1, decay);
+    const length = Math.round(seconds * this.context.sampleRate);
+    const impulse = this.context.createBuffer(2, length, this.context.sampleRate);
+    const random = new SeededRandom(REVERB_NOISE_SEED);
+
+    for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+      const data = impulse.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        data[i] = random.range(-1, 1) * Math.pow(10, (-3 * i) / length);
+      }
+    }
+    return impulse;
+  }
+}
+
+// Identity between plus and minus the ceiling (in dBFS) and flat beyond it
+function createClipCurve(ceiling: number): Float32Array {
+  const limit = Math.pow(10, Math.min(0, ceiling) / 20);
+  const curve = new Float32Array(CLIP_CURVE_SIZE);
+  for (let i = 0; i < CLIP_CURVE_SIZE; i++) {
+    const input = (i / (CLIP_CURVE_SIZE - 1)) * 2 - 1;
+    curve[i] = Math.max(-limit, Math.min(limit, input));
+  }
+  return curve;
+}
+
+function toDecibels(value: number): number {
+  return value > 0 ? 20 * Math.log10(value) : SILENCE_DB;
+}
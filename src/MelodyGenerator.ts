@@ -0,0 +1,159 @@
+import { midiToNoteName, noteNameToMidi } from './NoteParser';
+import { SeededRandom } from './SeededRandom';
+import { MelodyConfig, MelodyPattern, NoteEvent, ScaleName } from './types';
+
+export const KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Semitone offsets from the tonic
+export const SCALES: Record<ScaleName, { label: string; intervals: number[] }> = {
+  'major': { label: 'Major', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  'minor': { label: 'Minor', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  'harmonic-minor': { label: 'Harmonic minor', intervals: [0, 2, 3, 5, 7, 8, 11] },
+  'major-pentatonic': { label: 'Major pentatonic', intervals: [0, 2, 4, 7, 9] },
+  'minor-pentatonic': { label: 'Minor pentatonic', intervals: [0, 3, 5, 7, 10] },
+  'blues': { label: 'Blues', intervals: [0, 3, 5, 6, 7, 10] },
+  'dorian': { label: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  'phrygian': { label: 'Phrygian', intervals: [0, 1, 3, 5, 7, 8, 10] },
+  'lydian': { label: 'Lydian', intervals: [0, 2, 4, 6, 7, 9, 11] },
+  'mixolydian': { label: 'Mixolydian', intervals: [0, 2, 4, 5, 7, 9, 10] },
+  'locrian': { label: 'Locrian', intervals: [0, 1, 3, 5, 6, 8, 10] }
+};
+
+export const MELODY_PATTERN_LABELS: Record<MelodyPattern, string> = {
+  'arpeggio': 'Arpeggio',
+  'random-walk': 'Random walk',
+  'progression': 'Chord progression'
+};
+
+export const DEFAULT_MELODY: MelodyConfig = {
+  key: 'C',
+  scale: 'major',
+  lowNote: 60,
+  highNote: 84,
+  pattern: 'arpeggio',
+  length: 16,
+  quantize: false,
+  angleMapping: false
+};
+
+// I - V - vi - IV, as zero-based scale degrees
+const PROGRESSION_DEGREES = [0, 4, 5, 3];
+const NOTE_DURATION = '8n';
+
+// All MIDI notes of the scale between the low and high note, ascending
+export function getScaleNotes(config: MelodyConfig): number[] {
+  const tonic = Math.max(0, KEYS.indexOf(config.key));
+  const pitchClasses = new Set(SCALES[config.scale].intervals.map(interval => (tonic + interval) % 12));
+  const low = Math.max(0, Math.min(config.lowNote, config.highNote));
+  const high = Math.min(127, Math.max(config.lowNote, config.highNote));
+
+  const notes: number[] = [];
+  for (let midi = low; midi <= high; midi++) {
+    if (pitchClasses.has(midi % 12)) notes.push(midi);
+  }
+  return notes;
+}
+
+// Moves a MIDI note to the nearest note of the scale, preferring the lower one on ties
+export function quantizeToScale(midi: number, config: MelodyConfig): number {
+  const tonic = Math.max(0, KEYS.indexOf(config.key));
+  const pitchClasses = SCALES[config.scale].intervals.map(interval => (tonic + interval) % 12);
+
+  for (let distance = 0; distance < 12; distance++) {
+    for (const candidate of [midi - distance, midi + distance]) {
+      if (candidate >= 0 && candidate <= 127 && pitchClasses.includes(((candidate % 12) + 12) % 12)) {
+        return candidate;
+      }
+    }
+  }
+  return midi;
+}
+
+// Snaps every note of the events to the scale; notes that are not plain note names are kept
+export function quantizeEvents(events: NoteEvent[], config: MelodyConfig): NoteEvent[] {
+  return events.map(event => ({
+    notes: event.notes.map(note => {
+      const midi = noteNameToMidi(note.name);
+      return midi === null ? note : { ...note, name: midiToNoteName(quantizeToScale(midi, config)) };
+    })
+  }));
+}
+
+// Picks a scale note from a collision angle: one full turn spans the whole range
+export function noteForAngle(config: MelodyConfig, angle: number): NoteEvent | null {
+  const notes = getScaleNotes(config);
+  if (notes.length === 0) return null;
+
+  const turn = (((angle / (2 * Math.PI)) % 1) + 1) % 1;
+  const index = Math.min(notes.length - 1, Math.floor(turn * notes.length));
+  return { notes: [toSequenceNote(notes[index])] };
+}
+
+export function generateMelody(config: MelodyConfig, random: SeededRandom): NoteEvent[] {
+  const notes = getScaleNotes(config);
+  const length = Math.max(1, Math.floor(config.length));
+  if (notes.length === 0) return [];
+
+  switch (config.pattern) {
+    case 'random-walk':
+      return generateRandomWalk(notes, length, random);
+    case 'progression':
+      return generateProgression(notes, length, config);
+    default:
+      return generateArpeggio(notes, length, config);
+  }
+}
+
+// Zero-based position of a note within the scale (0 is the tonic)
+function getDegree(midi: number, config: MelodyConfig): number {
+  const tonic = Math.max(0, KEYS.indexOf(config.key));
+  return SCALES[config.scale].intervals.indexOf((midi - tonic + 120) % 12);
+}
+
+// Climbs the tonic triad across the range and back down again
+function generateArpeggio(notes: number[], length: number, config: MelodyConfig): NoteEvent[] {
+  const triad = notes.filter(midi => [0, 2, 4].includes(getDegree(midi, config)));
+  if (triad.length === 0) triad.push(notes[0]);
+  const path = triad.length > 1 ? [...triad, ...triad.slice(1, -1).reverse()] : triad;
+  return Array.from({ length }, (_, step) => ({ notes: [toSequenceNote(path[step % path.length])] }));
+}
+
+// Starts in the middle of the range and moves up or down by one or two scale steps
+function generateRandomWalk(notes: number[], length: number, random: SeededRandom): NoteEvent[] {
+  let index = Math.floor(notes.length / 2);
+  const events: NoteEvent[] = [];
+  for (let step = 0; step < length; step++) {
+    events.push({ notes: [toSequenceNote(notes[index])] });
+    const move = (random.nextInt(2) + 1) * (random.next() < 0.5 ? -1 : 1);
+    index = Math.max(0, Math.min(notes.length - 1, index + move));
+  }
+  return events;
+}
+
+// Stacks thirds on each degree of the progression, starting from the lowest tonic in the range.
+// Tones above the range are folded into it, so every step sounds however narrow the range is.
+function generateProgression(notes: number[], length: number, config: MelodyConfig): NoteEvent[] {
+  const { intervals } = SCALES[config.scale];
+  const tonic = Math.max(0, KEYS.indexOf(config.key));
+  const lowestTonic = notes[0] + ((((tonic - notes[0]) % 12) + 12) % 12);
+
+  return Array.from({ length }, (_, step) => {
+    const root = PROGRESSION_DEGREES[step % PROGRESSION_DEGREES.length] % intervals.length;
+    const chord = [root, root + 2, root + 4].map(degree => fitToRange(
+      notes,
+      lowestTonic + 12 * Math.floor(degree / intervals.length) + intervals[degree % intervals.length]
+    ));
+    return { notes: [...new Set(chord)].sort((a, b) => a - b).map(toSequenceNote) };
+  });
+}
+
+// The nearest octave of a note inside the range, or the nearest note of the range when no octave fits
+function fitToRange(notes: number[], midi: number): number {
+  const octaves = notes.filter(note => (note - midi) % 12 === 0);
+  const candidates = octaves.length > 0 ? octaves : notes;
+  return candidates.reduce((best, note) => (Math.abs(note - midi) < Math.abs(best - midi) ? note : best));
+}
+
+function toSequenceNote(midi: number) {
+  return { name: midiToNoteName(midi), duration: NOTE_DURATION, velocity: 1 };
+}
@@ -0,0 +1,45 @@
+import { Midi } from '@tonejs/midi';
+import { NoteEvent } from './types';
+
+export interface MidiFileTrack {
+  name: string;
+  instrument: string;
+  noteCount: number;
+  events: NoteEvent[];
+}
+
+// Parses a Standard MIDI File into one note sequence per track. Notes starting on the same tick
+// are grouped into a chord; each note keeps its own duration (in seconds) and velocity.
+export function parseMidiFile(data: ArrayBuffer): MidiFileTrack[] {
+  let midi: Midi;
+  try {
+    midi = new Midi(data);
+  } catch (error) {
+    throw new Error(`Invalid MIDI file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return midi.tracks
+    .filter(track => track.notes.length > 0)
+    .map((track, index) => {
+      const chords = new Map<number, NoteEvent>();
+      for (const note of track.notes) {
+        let event = chords.get(note.ticks);
+        if (!event) {
+          event = { notes: [] };
+          chords.set(note.ticks, event);
+        }
+        event.notes.push({ name: note.name, duration: note.duration, velocity: note.velocity });
+      }
+
+      const events = [...chords.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, event]) => event);
+
+      return {
+        name: track.name || `Track ${index + 1}`,
+        instrument: track.instrument.name,
+        noteCount: track.notes.length,
+        events
+      };
+    });
+}
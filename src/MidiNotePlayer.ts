@@ -1,48 +1,179 @@
 import * as Tone from 'tone';
+import { AudioEngine } from './AudioEngine';
+import { CollisionDynamics, DEFAULT_DYNAMICS, resolveDynamics } from './CollisionDynamics';
+import { DEFAULT_INSTRUMENT, InstrumentChain } from './Instruments';
+import { noteForAngle } from './MelodyGenerator';
+import { NoteParseResult, parseNoteSequence } from './NoteParser';
+import { CollisionEvent, DynamicsConfig, InstrumentConfig, InstrumentSample, MelodyConfig, NoteEvent } from './types';
 
 export class MidiNotePlayer {
-  private synth: Tone.PolySynth;
-  private notes: string[] = [];
-  private currentNoteIndex: number = 0;
+  private engine: AudioEngine;
+  private instrument: InstrumentConfig = DEFAULT_INSTRUMENT;
+  private chain: InstrumentChain;
+  // Decoded sampler audio, keyed by sample name
+  private sampleBuffers = new Map<string, AudioBuffer>();
+  // The uploaded sample files, kept so projects can embed them
+  private sampleSources = new Map<string, Blob>();
+  private dynamics: DynamicsConfig = DEFAULT_DYNAMICS;
+  // When set, notes come from where each ball hits instead of from the sequences
+  private angleMelody: MelodyConfig | null = null;
+  // One note sequence per ball; balls beyond the last sequence wrap around
+  private sequences: NoteEvent[][] = [];
+  private sequenceIndices: number[] = [];
 
-  constructor() {
-    this.synth = new Tone.PolySynth().toDestination();
-    Tone.Transport.bpm.value = 120;
+  // Tone runs on the engine's context, so notes reach the master bus and the recording
+  constructor(engine: AudioEngine) {
+    this.engine = engine;
+    this.chain = this.createChain();
+    Tone.getTransport().bpm.value = 120;
   }
 
-  public setNotes(notes: string[]) {
-    this.notes = notes;
-    this.currentNoteIndex = 0;
+  private createChain(): InstrumentChain {
+    return new InstrumentChain(this.instrument, this.sampleBuffers).connect(this.engine.getOutput());
   }
 
-  public async start() {
-    await Tone.start();
+  public getInstrument(): InstrumentConfig {
+    return this.instrument;
   }
 
-  public playNextNote() {
-    if (this.notes.length === 0) return;
+  public setInstrument(config: InstrumentConfig) {
+    const previous = this.instrument;
+    this.instrument = config;
 
-    const note = this.notes[this.currentNoteIndex];
-    this.synth.triggerAttackRelease(note, "8n");
-    
-    this.currentNoteIndex = (this.currentNoteIndex + 1) % this.notes.length;
+    // Envelope and effect changes are applied in place; a new instrument or sample set needs a new chain
+    if (previous.type === config.type && previous.samples === config.samples) {
+      this.chain.update(config);
+      return;
+    }
+    this.chain.dispose();
+    this.chain = this.createChain();
+  }
+
+  // Decodes a sample for the sampler instrument. The caller adds the returned entry to the
+  // instrument config; a sample with the same name replaces the previous one.
+  public async addSample(file: File, note: string): Promise<InstrumentSample> {
+    if (!file.name.toLowerCase().endsWith('.wav') && file.type !== 'audio/wav') {
+      throw new Error('Samples must be WAV files.');
+    }
+
+    const arrayBuffer = await file.arrayBuffer();
+    const buffer = await this.engine.getContext().decodeAudioData(arrayBuffer);
+    this.sampleBuffers.set(file.name, buffer);
+    this.sampleSources.set(file.name, file);
+    return { name: file.name, note };
+  }
+
+  public removeSample(name: string) {
+    this.sampleBuffers.delete(name);
+    this.sampleSources.delete(name);
+  }
+
+  public getSampleSource(name: string): Blob | null {
+    return this.sampleSources.get(name) ?? null;
+  }
+
+  public setNotes(notes: NoteEvent[]) {
+    this.setNoteSequences([notes]);
+  }
+
+  public setNoteSequences(sequences: NoteEvent[][]) {
+    this.sequences = sequences.filter(sequence => sequence.length > 0);
+    this.sequenceIndices = this.sequences.map(() => 0);
+  }
+
+  public getNoteSequences(): NoteEvent[][] {
+    return this.sequences.map(sequence => [...sequence]);
+  }
+
+  public setAngleMapping(melody: MelodyConfig | null) {
+    this.angleMelody = melody;
+  }
+
+  public hasNotes(): boolean {
+    return this.angleMelody !== null || this.sequences.length > 0;
+  }
+
+  public reset() {
+    this.sequenceIndices = this.sequences.map(() => 0);
+  }
+
+  public setDynamics(dynamics: DynamicsConfig) {
+    this.dynamics = dynamics;
+  }
+
+  public playNextNote(collision: CollisionEvent) {
+    const event = this.nextEvent(collision);
+    if (!event) return;
+
+    this.triggerEvent(this.chain, event, resolveDynamics(this.dynamics, collision));
   }
 
-  public parseMidiNotes(midiNotesStr: string): string[] {
+  private triggerEvent(chain: InstrumentChain, event: NoteEvent, dynamics: CollisionDynamics, time?: number) {
+    if (event.notes.length === 0) return;
+
+    chain.setFilterCutoff(dynamics.filterCutoff, time);
+
+    // Notes of a chord start together but keep their own duration and velocity
+    for (const note of event.notes) {
+      try {
+        const pitch = dynamics.pitch === 0 ? note.name : Tone.Frequency(note.name).transpose(dynamics.pitch).toFrequency();
+        chain.triggerAttackRelease(pitch, note.duration, time, note.velocity * dynamics.velocity);
+      } catch (error) {
+        console.error('Error playing note:', error);
+      }
+    }
+  }
+
+  // Renders the notes playNextNote would have played for the given collisions, starting from
+  // the beginning of each sequence. Used by offline rendering.
+  public async renderNotes(collisions: CollisionEvent[], duration: number, sampleRate: number): Promise<AudioBuffer | null> {
+    if (!this.hasNotes() || collisions.length === 0) return null;
+
+    const savedIndices = [...this.sequenceIndices];
+    this.reset();
+
     try {
-      // Remove brackets and split by commas
-      const notesArray = midiNotesStr
-        .replace(/[\[\]']/g, '')
-        .split(',')
-        .map(note => note.trim());
-
-      // Convert note format if needed (e.g., "Cs5" to "C#5")
-      return notesArray.map(note => {
-        return note.replace('s', '#');
-      });
-    } catch (error) {
-      console.error('Error parsing MIDI notes:', error);
-      return [];
+      const buffer = await Tone.Offline(async ({ transport }) => {
+        transport.bpm.value = 120;
+        const chain = new InstrumentChain(this.instrument, this.sampleBuffers).toDestination();
+        await chain.ready();
+        for (const collision of collisions) {
+          const event = this.nextEvent(collision);
+          if (event) {
+            this.triggerEvent(chain, event, resolveDynamics(this.dynamics, collision), collision.time);
+          }
+        }
+      }, duration, 2, sampleRate);
+
+      return buffer.get() ?? null;
+    } finally {
+      this.sequenceIndices = savedIndices;
     }
   }
+
+  private nextEvent(collision: CollisionEvent): NoteEvent | null {
+    return this.angleMelody
+      ? noteForAngle(this.angleMelody, collision.angle)
+      : this.advance(collision.ballIndex);
+  }
+
+  // Returns the next step of the ball's sequence and moves past it
+  private advance(ballIndex: number): NoteEvent | null {
+    if (this.sequences.length === 0) return null;
+
+    const sequenceIndex = ballIndex % this.sequences.length;
+    const sequence = this.sequences[sequenceIndex];
+    const noteIndex = this.sequenceIndices[sequenceIndex];
+    this.sequenceIndices[sequenceIndex] = (noteIndex + 1) % sequence.length;
+
+    return sequence[noteIndex];
+  }
+
+  public dispose() {
+    this.chain.dispose();
+  }
+
+  public parseMidiNotes(midiNotesStr: string): NoteParseResult {
+    return parseNoteSequence(midiNotesStr);
+  }
 }
@@ -0,0 +1,266 @@
+import { NoteEvent, NoteParseError, SequenceNote } from './types';
+
+export interface NoteParseResult {
+  events: NoteEvent[];
+  errors: NoteParseError[];
+}
+
+interface Token {
+  text: string;
+  start: number;
+}
+
+// A note before defaults are applied; duration is null when the item did not specify one
+interface ParsedNote {
+  name: string;
+  duration: string | number | null;
+}
+
+const DEFAULT_DURATION = '8n';
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const ACCIDENTALS: Record<string, number> = { '#': 1, '♯': 1, 's': 1, 'b': -1, '♭': -1 };
+
+const NOTE_PATTERN = /^([A-Ga-g])(#|♯|s|b|♭)?(-?\d+)$/;
+const NOTE_WITHOUT_OCTAVE_PATTERN = /^([A-Ga-g])(#|♯|s|b|♭)?$/;
+const MIDI_NUMBER_PATTERN = /^\d+$/;
+const REST_PATTERN = /^(r|rest|-)$/i;
+// Tone.js notation (8n, 4n., 8t, 1m) or a length in seconds
+const NOTATION_DURATION_PATTERN = /^\d+[ntm]\.?$/;
+const SECONDS_DURATION_PATTERN = /^(\d+\.?\d*|\.\d+)$/;
+
+// Parses a note sequence such as "C4, Eb4 [C4 E4 G4]:2n r 60:0.5".
+//
+// Items are separated by commas or whitespace. A note is a letter with an optional sharp
+// (#, s) or flat (b) and an octave, or a MIDI number (0-127). Square brackets group notes
+// into a chord and "r" is a rest that skips a collision. Notes and chords can take a duration
+// after a colon, either in Tone.js notation or in seconds.
+export function parseNoteSequence(input: string): NoteParseResult {
+  const events: NoteEvent[] = [];
+  const errors: NoteParseError[] = [];
+
+  const fail = (message: string, start: number, length: number) => {
+    errors.push({ message, ...locate(input, start), length: Math.max(1, length) });
+  };
+
+  let position = 0;
+  while (position < input.length) {
+    const char = input[position];
+
+    if (isSeparator(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === ']') {
+      fail('Unexpected "]" without a matching "["', position, 1);
+      position++;
+      continue;
+    }
+
+    if (char === '[') {
+      const chordStart = position;
+      const notes: ParsedNote[] = [];
+      position++;
+
+      let closed = false;
+      while (position < input.length) {
+        if (isSeparator(input[position])) {
+          position++;
+        } else if (input[position] === ']') {
+          closed = true;
+          position++;
+          break;
+        } else if (input[position] === '[') {
+          fail('Chords cannot be nested', position, 1);
+          position++;
+        } else {
+          const token = readToken(input, position);
+          position = token.start + token.text.length;
+          const note = parseNoteToken(token, fail, true);
+          if (note) notes.push(note);
+        }
+      }
+
+      if (!closed) {
+        fail('Chord is missing its closing "]"', chordStart, position - chordStart);
+        continue;
+      }
+
+      // A duration after the closing bracket applies to notes without their own
+      let chordDuration: string | number | null = null;
+      if (input[position] === ':') {
+        const token = readToken(input, position + 1);
+        position = token.start + token.text.length;
+        chordDuration = parseDuration(token, fail);
+      }
+
+      if (notes.length === 0) {
+        fail('Chord has no notes', chordStart, position - chordStart);
+        continue;
+      }
+
+      events.push({
+        notes: notes.map(note => toSequenceNote(note, chordDuration))
+      });
+      continue;
+    }
+
+    const token = readToken(input, position);
+    position = token.start + token.text.length;
+
+    const [head] = token.text.split(':');
+    if (REST_PATTERN.test(head)) {
+      if (head.length < token.text.length) {
+        fail('Rests do not take a duration', token.start, token.text.length);
+      }
+      events.push({ notes: [] });
+      continue;
+    }
+
+    const note = parseNoteToken(token, fail, false);
+    if (note) {
+      events.push({ notes: [toSequenceNote(note, null)] });
+    }
+  }
+
+  return { events, errors };
+}
+
+export function midiToNoteName(midi: number): string {
+  return `${SHARP_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+// Converts a note name such as "C#4" or "Bb3" to its MIDI number, or null if it is not a note
+export function noteNameToMidi(name: string): number | null {
+  const match = NOTE_PATTERN.exec(name);
+  if (!match) return null;
+
+  const [, letter, accidental, octaveText] = match;
+  const midi = (Number(octaveText) + 1) * 12 + SEMITONES[letter.toUpperCase()] + (accidental ? ACCIDENTALS[accidental] : 0);
+  return midi >= 0 && midi <= 127 ? midi : null;
+}
+
+// Writes events back in the grammar parseNoteSequence reads
+export function formatNoteSequence(events: NoteEvent[]): string {
+  const formatNote = (note: SequenceNote) =>
+    (note.duration === DEFAULT_DURATION ? note.name : `${note.name}:${note.duration}`);
+
+  return events
+    .map(event => {
+      if (event.notes.length === 0) return 'r';
+      if (event.notes.length === 1) return formatNote(event.notes[0]);
+      return `[${event.notes.map(formatNote).join(' ')}]`;
+    })
+    .join(' ');
+}
+
+function toSequenceNote(note: ParsedNote, fallbackDuration: string | number | null): SequenceNote {
+  return { name: note.name, duration: note.duration ?? fallbackDuration ?? DEFAULT_DURATION, velocity: 1 };
+}
+
+function isSeparator(char: string): boolean {
+  // Quotes are ignored so lists pasted from code ('C4', 'E4') still parse
+  return char === ',' || char === '\'' || char === '"' || /\s/.test(char);
+}
+
+function readToken(input: string, start: number): Token {
+  let end = start;
+  while (end < input.length && !isSeparator(input[end]) && input[end] !== '[' && input[end] !== ']') {
+    end++;
+  }
+  return { text: input.slice(start, end), start };
+}
+
+function parseNoteToken(
+  token: Token,
+  fail: (message: string, start: number, length: number) => void,
+  inChord: boolean
+): ParsedNote | null {
+  const colon = token.text.indexOf(':');
+  const head = colon === -1 ? token.text : token.text.slice(0, colon);
+
+  if (head === '') {
+    fail('Expected a note before the duration', token.start, token.text.length);
+    return null;
+  }
+
+  if (REST_PATTERN.test(head)) {
+    fail(inChord ? 'Rests cannot be part of a chord' : `Unknown note "${head}"`, token.start, head.length);
+    return null;
+  }
+
+  const name = parseNoteName(head, token.start, fail);
+  if (!name) return null;
+
+  if (colon === -1) {
+    return { name, duration: null };
+  }
+
+  const duration = parseDuration({ text: token.text.slice(colon + 1), start: token.start + colon + 1 }, fail);
+  return duration === null ? null : { name, duration };
+}
+
+function parseNoteName(
+  text: string,
+  start: number,
+  fail: (message: string, start: number, length: number) => void
+): string | null {
+  if (MIDI_NUMBER_PATTERN.test(text)) {
+    const midi = Number(text);
+    if (midi > 127) {
+      fail(`MIDI note ${midi} is out of range (0-127)`, start, text.length);
+      return null;
+    }
+    return midiToNoteName(midi);
+  }
+
+  const match = NOTE_PATTERN.exec(text);
+  if (!match) {
+    if (NOTE_WITHOUT_OCTAVE_PATTERN.test(text)) {
+      fail(`Note "${text}" is missing an octave`, start, text.length);
+    } else {
+      fail(`Unknown note "${text}"`, start, text.length);
+    }
+    return null;
+  }
+
+  const [, letter, accidental, octaveText] = match;
+  const octave = Number(octaveText);
+  const offset = accidental ? ACCIDENTALS[accidental] : 0;
+  const midi = (octave + 1) * 12 + SEMITONES[letter.toUpperCase()] + offset;
+  if (midi < 0 || midi > 127) {
+    fail(`Note "${text}" is out of the MIDI range (C-1 to G9)`, start, text.length);
+    return null;
+  }
+
+  const symbol = offset > 0 ? '#' : offset < 0 ? 'b' : '';
+  return `${letter.toUpperCase()}${symbol}${octave}`;
+}
+
+function parseDuration(
+  token: Token,
+  fail: (message: string, start: number, length: number) => void
+): string | number | null {
+  if (NOTATION_DURATION_PATTERN.test(token.text)) {
+    return token.text;
+  }
+  if (SECONDS_DURATION_PATTERN.test(token.text) && Number(token.text) > 0) {
+    return Number(token.text);
+  }
+
+  fail(
+    token.text === ''
+      ? 'Missing duration after ":"'
+      : `Invalid duration "${token.text}" (use 4n, 8n., 8t, 1m or seconds)`,
+    token.start,
+    token.text.length
+  );
+  return null;
+}
+
+function locate(input: string, offset: number): { line: number; column: number } {
+  const before = input.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
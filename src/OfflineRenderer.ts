@@ -0,0 +1,290 @@
+import { ArrayBufferTarget as Mp4ArrayBufferTarget, Muxer as Mp4Muxer } from 'mp4-muxer';
+import { ArrayBufferTarget as WebmArrayBufferTarget, Muxer as WebmMuxer } from 'webm-muxer';
+import { AudioManager } from './AudioManager';
+import { CircleSimulation } from './CircleSimulation';
+import { EXPORT_FORMATS } from './ExportFormats';
+import { MasterBus } from './MasterBus';
+import { MidiNotePlayer } from './MidiNotePlayer';
+import { CollisionEvent, EndEvent, ExportFormat } from './types';
+
+export interface OfflineRenderOptions {
+  // Maximum clip length; the clip stops earlier when an end condition fires
+  duration: number;
+  // How long the end card stays on screen after an end condition fires
+  endCardDuration?: number;
+  format?: ExportFormat;
+  fps?: number;
+  videoBitsPerSecond?: number;
+  onProgress?: (progress: number) => void;
+}
+
+export interface OfflineRenderResult {
+  blob: Blob;
+  duration: number;
+  endEvent: EndEvent | null;
+}
+
+// Common surface of the WebM and MP4 muxers
+interface ClipMuxer {
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void;
+  finalize(): void;
+}
+
+export class OfflineRenderer {
+  private simulation: CircleSimulation;
+  private audioManager: AudioManager | null;
+  private midiPlayer: MidiNotePlayer | null;
+
+  private readonly AUDIO_SAMPLE_RATE = 48000;
+  private readonly AUDIO_CHANNELS = 2;
+  private readonly AUDIO_CHUNK_FRAMES = 4800;
+  private readonly MAX_ENCODE_QUEUE = 10;
+
+  constructor(simulation: CircleSimulation, audioManager: AudioManager | null, midiPlayer: MidiNotePlayer | null = null) {
+    this.simulation = simulation;
+    this.audioManager = audioManager;
+    this.midiPlayer = midiPlayer;
+  }
+
+  public static isSupported(): boolean {
+    return typeof VideoEncoder !== 'undefined' &&
+      typeof VideoFrame !== 'undefined' &&
+      typeof AudioEncoder !== 'undefined' &&
+      typeof OfflineAudioContext !== 'undefined';
+  }
+
+  public async isFormatSupported(format: ExportFormat, fps: number = 60): Promise<boolean> {
+    if (!OfflineRenderer.isSupported()) return false;
+
+    const canvas = this.simulation.getCanvas();
+    const [video, audio] = await Promise.all([
+      VideoEncoder.isConfigSupported(this.getVideoConfig(format, canvas, fps, 2500000)),
+      AudioEncoder.isConfigSupported(this.getAudioConfig(format))
+    ]);
+    return Boolean(video.supported && audio.supported);
+  }
+
+  private getVideoConfig(
+    format: ExportFormat,
+    canvas: HTMLCanvasElement,
+    fps: number,
+    videoBitsPerSecond: number
+  ): VideoEncoderConfig {
+    return {
+      codec: EXPORT_FORMATS[format].videoEncoderCodec,
+      width: canvas.width,
+      height: canvas.height,
+      bitrate: videoBitsPerSecond,
+      framerate: fps,
+      ...(format === 'mp4' ? { avc: { format: 'avc' as const } } : {})
+    };
+  }
+
+  private getAudioConfig(format: ExportFormat): AudioEncoderConfig {
+    return {
+      codec: EXPORT_FORMATS[format].audioEncoderCodec,
+      sampleRate: this.AUDIO_SAMPLE_RATE,
+      numberOfChannels: this.AUDIO_CHANNELS,
+      bitrate: 128000
+    };
+  }
+
+  private createMuxer(
+    format: ExportFormat,
+    canvas: HTMLCanvasElement,
+    fps: number,
+    includeAudio: boolean
+  ): { muxer: ClipMuxer; getBuffer: () => ArrayBuffer } {
+    if (format === 'mp4') {
+      const target = new Mp4ArrayBufferTarget();
+      const muxer = new Mp4Muxer({
+        target,
+        video: { codec: 'avc', width: canvas.width, height: canvas.height, frameRate: fps },
+        audio: includeAudio
+          ? { codec: 'aac', sampleRate: this.AUDIO_SAMPLE_RATE, numberOfChannels: this.AUDIO_CHANNELS }
+          : undefined,
+        fastStart: 'in-memory'
+      });
+      return { muxer, getBuffer: () => target.buffer };
+    }
+
+    const target = new WebmArrayBufferTarget();
+    const muxer = new WebmMuxer({
+      target,
+      video: { codec: 'V_VP9', width: canvas.width, height: canvas.height, frameRate: fps },
+      audio: includeAudio
+        ? { codec: 'A_OPUS', sampleRate: this.AUDIO_SAMPLE_RATE, numberOfChannels: this.AUDIO_CHANNELS }
+        : undefined
+    });
+    return { muxer, getBuffer: () => target.buffer };
+  }
+
+  // Steps the simulation frame by frame from its current state and returns a clip of exactly
+  // `duration` seconds, or shorter if an end condition fires. The simulation should be reset
+  // (and stopped) by the caller beforehand.
+  public async render(options: OfflineRenderOptions): Promise<OfflineRenderResult> {
+    if (!OfflineRenderer.isSupported()) {
+      throw new Error('Offline rendering requires WebCodecs support (VideoEncoder/AudioEncoder).');
+    }
+
+    const format = options.format ?? 'webm';
+    const fps = options.fps ?? 60;
+    const videoBitsPerSecond = options.videoBitsPerSecond ?? 2500000;
+    const totalFrames = Math.round(options.duration * fps);
+    const endCardFrames = Math.round((options.endCardDuration ?? 0) * fps);
+    const canvas = this.simulation.getCanvas();
+    const includeAudio = Boolean(
+      this.audioManager?.hasSegments() || this.audioManager?.hasMusicBed() || this.midiPlayer?.hasNotes()
+    );
+
+    const videoConfig = this.getVideoConfig(format, canvas, fps, videoBitsPerSecond);
+    const { supported } = await VideoEncoder.isConfigSupported(videoConfig);
+    if (!supported) {
+      throw new Error(`This browser cannot encode ${EXPORT_FORMATS[format].label} video.`);
+    }
+
+    const { muxer, getBuffer } = this.createMuxer(format, canvas, fps, includeAudio);
+
+    let encodeError: Error | null = null;
+    const videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: (error) => { encodeError = error; }
+    });
+    videoEncoder.configure(videoConfig);
+
+    // Record collision times on the simulation clock instead of playing audio live
+    const collisions: CollisionEvent[] = [];
+    const previousOnCollision = this.simulation.setOnCollision((event) => {
+      collisions.push(event);
+    });
+
+    let renderedFrames = 0;
+    let endFrame: number | null = null;
+
+    try {
+      const frameDuration = 1 / fps;
+      const frameDurationMicros = 1000000 / fps;
+
+      for (let i = 0; i < totalFrames; i++) {
+        if (encodeError) throw encodeError;
+
+        // The first frame shows the initial state; each following frame advances by one frame duration
+        this.simulation.renderFrame(i === 0 ? 0 : frameDuration);
+
+        const frame = new VideoFrame(canvas, {
+          timestamp: Math.round(i * frameDurationMicros),
+          duration: Math.round(frameDurationMicros)
+        });
+        videoEncoder.encode(frame, { keyFrame: i % (fps * 2) === 0 });
+        frame.close();
+        renderedFrames++;
+
+        if (endFrame === null && this.simulation.getEndEvent()) {
+          endFrame = i;
+        }
+        if (endFrame !== null && i >= endFrame + endCardFrames) {
+          break;
+        }
+
+        // Apply backpressure and let the UI breathe
+        while (videoEncoder.encodeQueueSize > this.MAX_ENCODE_QUEUE) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+        if (i % fps === 0) {
+          options.onProgress?.(i / totalFrames);
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+
+      await videoEncoder.flush();
+      if (encodeError) throw encodeError;
+    } finally {
+      this.simulation.setOnCollision(previousOnCollision);
+      if (videoEncoder.state !== 'closed') {
+        videoEncoder.close();
+      }
+    }
+
+    const duration = renderedFrames / fps;
+
+    if (includeAudio) {
+      const audioBuffer = await this.renderAudio(collisions, duration);
+      await this.encodeAudio(audioBuffer, muxer, format);
+    }
+
+    muxer.finalize();
+    options.onProgress?.(1);
+
+    return {
+      blob: new Blob([getBuffer()], { type: EXPORT_FORMATS[format].mimeType }),
+      duration,
+      endEvent: this.simulation.getEndEvent()
+    };
+  }
+
+  private async renderAudio(collisions: CollisionEvent[], duration: number): Promise<AudioBuffer> {
+    const context = new OfflineAudioContext(
+      this.AUDIO_CHANNELS,
+      Math.round(duration * this.AUDIO_SAMPLE_RATE),
+      this.AUDIO_SAMPLE_RATE
+    );
+    // A copy of the live master bus, so exported clips get the same processing and limiting
+    const masterBus = new MasterBus(context, this.audioManager?.getMasterBus().getConfig()).connect(context.destination);
+    this.audioManager?.scheduleSegments(context, masterBus.input, collisions);
+    this.audioManager?.scheduleMusicBed(context, masterBus.input, collisions, duration);
+
+    const notes = await this.midiPlayer?.renderNotes(collisions, duration, this.AUDIO_SAMPLE_RATE);
+    if (notes) {
+      const source = context.createBufferSource();
+      source.buffer = notes;
+      source.connect(masterBus.input);
+      source.start(0);
+    }
+
+    return context.startRendering();
+  }
+
+  private async encodeAudio(audioBuffer: AudioBuffer, muxer: ClipMuxer, format: ExportFormat): Promise<void> {
+    const audioConfig = this.getAudioConfig(format);
+    const { supported } = await AudioEncoder.isConfigSupported(audioConfig);
+    if (!supported) {
+      throw new Error(`This browser cannot encode ${EXPORT_FORMATS[format].label} audio.`);
+    }
+
+    let encodeError: Error | null = null;
+    const audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: (error) => { encodeError = error; }
+    });
+    audioEncoder.configure(audioConfig);
+
+    try {
+      for (let offset = 0; offset < audioBuffer.length; offset += this.AUDIO_CHUNK_FRAMES) {
+        const frames = Math.min(this.AUDIO_CHUNK_FRAMES, audioBuffer.length - offset);
+        const planar = new Float32Array(frames * this.AUDIO_CHANNELS);
+        for (let channel = 0; channel < this.AUDIO_CHANNELS; channel++) {
+          planar.set(audioBuffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+        }
+
+        const data = new AudioData({
+          format: 'f32-planar',
+          sampleRate: this.AUDIO_SAMPLE_RATE,
+          numberOfFrames: frames,
+          numberOfChannels: this.AUDIO_CHANNELS,
+          timestamp: Math.round(offset / this.AUDIO_SAMPLE_RATE * 1000000),
+          data: planar
+        });
+        audioEncoder.encode(data);
+        data.close();
+      }
+
+      await audioEncoder.flush();
+      if (encodeError) throw encodeError;
+    } finally {
+      if (audioEncoder.state !== 'closed') {
+        audioEncoder.close();
+      }
+    }
+  }
+}
@@ -0,0 +1,162 @@
+// Energy-based onset and beat detection used to split tracks at musically sensible points
+
+const HOP_SIZE = 512;
+const WINDOW_SIZE = 1024;
+// Frames on each side used for the adaptive threshold
+const THRESHOLD_RADIUS = 8;
+const THRESHOLD_MULTIPLIER = 1.5;
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+
+// The parts of the analysis that do not depend on the segment length. Computed once per track,
+// so changing the length or mode only re-picks boundaries.
+export interface OnsetAnalysis {
+  envelope: Float32Array;
+  // Frames of the envelope peaks that stand out enough to count as transients, in order
+  peakFrames: number[];
+  // Seconds per envelope frame
+  frameDuration: number;
+  // Beat period and offset in frames; a period of 0 means no tempo was found
+  beatLag: number;
+  beatPhase: number;
+}
+
+export function analyzeOnsets(buffer: AudioBuffer): OnsetAnalysis {
+  const envelope = computeOnsetEnvelope(buffer);
+  const frameDuration = HOP_SIZE / buffer.sampleRate;
+  const beatLag = estimateBeatLag(envelope, frameDuration);
+  return {
+    envelope,
+    peakFrames: findPeakFrames(envelope),
+    frameDuration,
+    beatLag,
+    beatPhase: beatLag > 0 ? estimateBeatPhase(envelope, beatLag) : 0
+  };
+}
+
+// Half-wave rectified rise in log energy per hop, from a mono mix of the buffer
+function computeOnsetEnvelope(buffer: AudioBuffer): Float32Array {
+  const frameCount = Math.max(0, Math.floor((buffer.length - WINDOW_SIZE) / HOP_SIZE) + 1);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  const energies = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * HOP_SIZE;
+    let sum = 0;
+    for (let i = start; i < start + WINDOW_SIZE; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      sample /= channels.length;
+      sum += sample * sample;
+    }
+    energies[frame] = Math.log(1e-10 + sum / WINDOW_SIZE);
+  }
+
+  const envelope = new Float32Array(frameCount);
+  for (let frame = 1; frame < frameCount; frame++) {
+    envelope[frame] = Math.max(0, energies[frame] - energies[frame - 1]);
+  }
+  return envelope;
+}
+
+// Returns onset times in seconds, at least `minInterval` apart. Audio before the first onset is
+// kept as its own segment unless it is shorter than `minInterval`.
+export function detectOnsets({ peakFrames, frameDuration }: OnsetAnalysis, minInterval: number): number[] {
+  const minFrames = Math.max(1, Math.round(minInterval / frameDuration));
+  const onsets: number[] = [];
+  let lastFrame = -Infinity;
+
+  for (const frame of peakFrames) {
+    if (frame - lastFrame >= minFrames) {
+      onsets.push(frame * frameDuration);
+      lastFrame = frame;
+    }
+  }
+
+  if (onsets.length === 0 || onsets[0] >= minInterval) {
+    onsets.unshift(0);
+  }
+  return onsets;
+}
+
+function findPeakFrames(envelope: Float32Array): number[] {
+  const peaks: number[] = [];
+
+  for (let frame = 1; frame < envelope.length - 1; frame++) {
+    const value = envelope[frame];
+    if (value <= envelope[frame - 1] || value < envelope[frame + 1]) continue;
+
+    // Peaks must stand out from their neighbourhood to count as transients
+    let localSum = 0;
+    let localCount = 0;
+    for (let i = Math.max(0, frame - THRESHOLD_RADIUS); i <= Math.min(envelope.length - 1, frame + THRESHOLD_RADIUS); i++) {
+      localSum += envelope[i];
+      localCount++;
+    }
+    const threshold = (localSum / localCount) * THRESHOLD_MULTIPLIER + 0.1;
+
+    if (value > threshold) {
+      peaks.push(frame);
+    }
+  }
+  return peaks;
+}
+
+// Returns beat times in seconds on the analysed beat grid. Falls back to onsets when no tempo
+// was found.
+export function detectBeats(analysis: OnsetAnalysis, minInterval: number): number[] {
+  const { envelope, frameDuration, beatLag, beatPhase } = analysis;
+  if (beatLag === 0) {
+    return detectOnsets(analysis, minInterval);
+  }
+
+  // Group beats so no segment is shorter than minInterval
+  const beatsPerSegment = Math.max(1, Math.ceil(minInterval / (beatLag * frameDuration) - 1e-9));
+  const beats = [0];
+  for (let frame = beatPhase; frame < envelope.length; frame += beatLag * beatsPerSegment) {
+    const time = frame * frameDuration;
+    if (time - beats[beats.length - 1] >= minInterval * 0.5) {
+      beats.push(time);
+    }
+  }
+  return beats;
+}
+
+// The tempo from the autocorrelation of the onset envelope, as a beat period in frames
+function estimateBeatLag(envelope: Float32Array, frameDuration: number): number {
+  const minLag = Math.max(1, Math.round(60 / MAX_BPM / frameDuration));
+  const maxLag = Math.min(envelope.length - 1, Math.round(60 / MIN_BPM / frameDuration));
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let score = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      score += envelope[i] * envelope[i - lag];
+    }
+    score /= envelope.length - lag;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  return bestLag;
+}
+
+// The phase whose beat grid lands on the most onset energy, aligning beats to the strongest onsets
+function estimateBeatPhase(envelope: Float32Array, lag: number): number {
+  let bestPhase = 0;
+  let bestPhaseScore = -1;
+  for (let phase = 0; phase < lag; phase++) {
+    let score = 0;
+    for (let i = phase; i < envelope.length; i += lag) {
+      score += envelope[i];
+    }
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+  return bestPhase;
+}
@@ -0,0 +1,230 @@
+import JSZip from 'jszip';
+import { DEFAULT_MUSIC_BED } from './AudioManager';
+import { DEFAULT_RANDOMIZATION } from './BatchVariation';
+import { DEFAULT_DYNAMICS } from './CollisionDynamics';
+import { DEFAULT_INSTRUMENT } from './Instruments';
+import { DEFAULT_MASTER_BUS } from './MasterBus';
+import { DEFAULT_MELODY } from './MelodyGenerator';
+import { MidiFileTrack } from './MidiFileImporter';
+import {
+  DynamicsConfig,
+  EndConditions,
+  ExportFormat,
+  InstrumentConfig,
+  MasterBusConfig,
+  MelodyConfig,
+  MusicBedConfig,
+  PhysicsParameters,
+  RandomizationConfig,
+  SegmentationMode,
+  SegmentPlaybackConfig,
+  TextElement,
+  TrackSelectionMode
+} from './types';
+
+// Bump when the settings shape changes and add a migration from the previous version
+export const PROJECT_VERSION = 1;
+
+const PROJECT_FORMAT = 'singing-ball-project';
+const SETTINGS_FILE = 'project.json';
+
+// Stands in for the custom font in text elements, whose font is otherwise the font's data URL
+export const CUSTOM_FONT_REFERENCE = 'custom-font';
+
+// An uploaded file stored in the archive; `file` is its path inside the ZIP
+export interface ProjectAssetRef {
+  name: string;
+  file: string;
+}
+
+export interface ProjectTrack extends ProjectAssetRef {
+  gain: number;
+  startOffset: number;
+}
+
+export interface ProjectSettings {
+  physics: PhysicsParameters;
+  perBallSound: boolean;
+  endConditions: EndConditions;
+  seed: number;
+  text: {
+    elements: TextElement[];
+    // The MIME type is kept so the font can be turned back into a data URL
+    customFont: (ProjectAssetRef & { type: string }) | null;
+  };
+  midi: {
+    notes: string;
+    // Imported MIDI files are stored already parsed
+    file: { name: string; tracks: MidiFileTrack[]; selectedTrack: number } | null;
+    instrument: InstrumentConfig;
+    samples: ProjectAssetRef[];
+    dynamics: DynamicsConfig;
+    melody: MelodyConfig;
+  };
+  audio: {
+    segmentDuration: number;
+    segmentationMode: SegmentationMode;
+    playback: SegmentPlaybackConfig;
+    selectionMode: TrackSelectionMode;
+    // Position in `tracks`, since track ids are not kept across sessions
+    fixedTrackIndex: number | null;
+    tracks: ProjectTrack[];
+    musicBed: ProjectAssetRef | null;
+    musicBedConfig: MusicBedConfig;
+    masterBus: MasterBusConfig;
+  };
+  recording: {
+    duration: number;
+    batchCount: number;
+    renderMode: 'realtime' | 'offline';
+    exportFormat: ExportFormat;
+  };
+  randomization: RandomizationConfig;
+}
+
+// Asset contents by their path in the archive
+export type ProjectAssets = Map<string, Blob>;
+
+export interface Project {
+  settings: ProjectSettings;
+  assets: ProjectAssets;
+}
+
+// The settings of a fresh session; also fills in fields missing from older project files
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  physics: {
+    gravity: 0.4,
+    velocityIncrease: 0.02,
+    velocityDecay: 0.998,
+    ballGrowth: 0.015,
+    ballCount: 1,
+    container: { shape: 'circle', rotationSpeed: 0, gapSize: 0 }
+  },
+  perBallSound: false,
+  endConditions: { maxRadius: false, escape: false, collisionCount: 0, timeLimit: 0 },
+  seed: 0,
+  text: { elements: [], customFont: null },
+  midi: {
+    notes: '',
+    file: null,
+    instrument: DEFAULT_INSTRUMENT,
+    samples: [],
+    dynamics: DEFAULT_DYNAMICS,
+    melody: DEFAULT_MELODY
+  },
+  audio: {
+    segmentDuration: 0.3,
+    segmentationMode: 'fixed',
+    playback: { mode: 'retrigger', order: 'forward', voiceLimit: 4 },
+    selectionMode: 'random',
+    fixedTrackIndex: null,
+    tracks: [],
+    musicBed: null,
+    musicBedConfig: DEFAULT_MUSIC_BED,
+    masterBus: DEFAULT_MASTER_BUS
+  },
+  recording: { duration: 10, batchCount: 1, renderMode: 'realtime', exportFormat: 'webm' },
+  randomization: DEFAULT_RANDOMIZATION
+};
+
+// Each entry upgrades settings saved by version `index + 1` to the next version
+const MIGRATIONS: ((settings: Record<string, unknown>) => Record<string, unknown>)[] = [];
+
+// Builds a path for an asset inside the archive that cannot collide with other assets
+export function getAssetPath(folder: string, index: number, name: string): string {
+  return `assets/${folder}/${index + 1}-${name.replace(/[\\/]/g, '_')}`;
+}
+
+export async function createProjectArchive({ settings, assets }: Project): Promise<Blob> {
+  const zip = new JSZip();
+  zip.file(SETTINGS_FILE, JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    settings
+  }, null, 2));
+
+  // Audio and fonts are mostly compressed already, so store them as-is
+  for (const [path, blob] of assets) {
+    zip.file(path, blob, { compression: 'STORE' });
+  }
+
+  return zip.generateAsync({
+    type: 'blob',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 }
+  });
+}
+
+export async function readProjectArchive(file: Blob): Promise<Project> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a project archive.');
+  }
+
+  const settingsFile = zip.file(SETTINGS_FILE);
+  if (!settingsFile) {
+    throw new Error(`This archive has no ${SETTINGS_FILE}, so it is not a project file.`);
+  }
+
+  let data: { format?: string; version?: number; settings?: Record<string, unknown> };
+  try {
+    data = JSON.parse(await settingsFile.async('string'));
+  } catch {
+    throw new Error(`${SETTINGS_FILE} is not valid JSON.`);
+  }
+
+  if (data.format !== PROJECT_FORMAT || typeof data.version !== 'number' || !data.settings) {
+    throw new Error('This archive is not a project file.');
+  }
+  const settings = upgradeProjectSettings(data.version, data.settings);
+
+  const assets: ProjectAssets = new Map();
+  for (const entry of Object.values(zip.files)) {
+    if (!entry.dir && entry.name !== SETTINGS_FILE) {
+      assets.set(entry.name, await entry.async('blob'));
+    }
+  }
+
+  return { settings, assets };
+}
+
+// Brings settings saved by any earlier project version up to the current shape
+export function upgradeProjectSettings(version: number, saved: Record<string, unknown>): ProjectSettings {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Unsupported project version ${version}. This file was not saved by this app.`);
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(`This project was saved by a newer version of the app (project version ${version}). Update the app to open it.`);
+  }
+
+  let settings = saved;
+  for (let from = version; from < PROJECT_VERSION; from++) {
+    settings = MIGRATIONS[from - 1](settings);
+  }
+  return withDefaults(DEFAULT_PROJECT_SETTINGS, settings) as ProjectSettings;
+}
+
+export function getProjectFileName(): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `simulation-project-${timestamp}.zip`;
+}
+
+// Fills fields missing from `value` with the defaults, recursing into plain objects. Arrays and
+// nulls are taken as saved.
+function withDefaults(defaults: unknown, value: unknown): unknown {
+  if (value === undefined) return defaults;
+  if (!isPlainObject(defaults) || !isPlainObject(value)) return value;
+
+  const merged: Record<string, unknown> = { ...value };
+  for (const [key, defaultValue] of Object.entries(defaults)) {
+    merged[key] = withDefaults(defaultValue, value[key]);
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
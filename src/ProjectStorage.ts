@@ -0,0 +1,230 @@
+import { PROJECT_VERSION, Project, ProjectAssets, ProjectSettings, upgradeProjectSettings } from './ProjectFile';
+
+const DB_NAME = 'singing-ball';
+const DB_VERSION = 2;
+const SESSION_STORE = 'session';
+const PRESET_STORE = 'presets';
+// Uploaded files, each stored once under its own key and shared by the session and presets
+const ASSET_STORE = 'assets';
+const SESSION_KEY = 'current';
+// Lets the preset list be read from keys alone, without loading any preset
+const SAVED_AT_INDEX = 'savedAt';
+
+// A project as kept in IndexedDB. Blobs are stored natively in the asset store, so they need no
+// encoding; the record maps each asset path to its key there.
+interface StoredProject {
+  name: string;
+  version: number;
+  savedAt: string;
+  settings: ProjectSettings;
+  assetKeys: Record<string, string>;
+}
+
+export interface PresetInfo {
+  name: string;
+  savedAt: string;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createAssetKey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Version 1 kept the assets inside each record; moves them to the asset store
+function moveAssetsOut(transaction: IDBTransaction, storeName: string) {
+  const assetStore = transaction.objectStore(ASSET_STORE);
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const { assets, ...record } = cursor.value as StoredProject & { assets?: ProjectAssets };
+    const assetKeys: Record<string, string> = {};
+    for (const [path, blob] of assets ?? []) {
+      const key = createAssetKey();
+      assetStore.put(blob, key);
+      assetKeys[path] = key;
+    }
+    cursor.update({ ...record, assetKeys });
+    cursor.continue();
+  };
+}
+
+// Writes are only durable once their transaction commits, which happens after the request succeeds
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The IndexedDB transaction was aborted.'));
+  });
+}
+
+// Keeps the autosaved session and the named presets in IndexedDB, including audio files and fonts
+export class ProjectStorage {
+  private database: Promise<IDBDatabase> | null = null;
+  // Keys of blobs this storage has written or read, so unchanged files are not written again
+  private assetKeys = new WeakMap<Blob, string>();
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          const database = request.result;
+          const transaction = request.transaction!;
+          if (event.oldVersion < 1) {
+            database.createObjectStore(SESSION_STORE, { keyPath: 'name' });
+            database.createObjectStore(PRESET_STORE, { keyPath: 'name' });
+          }
+          if (event.oldVersion < 2) {
+            database.createObjectStore(ASSET_STORE);
+            transaction.objectStore(PRESET_STORE).createIndex(SAVED_AT_INDEX, 'savedAt');
+            moveAssetsOut(transaction, SESSION_STORE);
+            moveAssetsOut(transaction, PRESET_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry if the database could not be opened
+      this.database.catch(() => { this.database = null; });
+    }
+    return this.database;
+  }
+
+  private async put(storeName: string, name: string, { settings, assets }: Project): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction([storeName, ASSET_STORE], 'readwrite');
+    const committed = complete(transaction);
+    const assetStore = transaction.objectStore(ASSET_STORE);
+    const assetKeys: Record<string, string> = {};
+    const written: [Blob, string][] = [];
+
+    for (const [path, blob] of assets) {
+      let key = this.assetKeys.get(blob);
+      // Only files that are new, or were pruned since, are written
+      if (!key || (await promisify(assetStore.count(key))) === 0) {
+        key = createAssetKey();
+        assetStore.put(blob, key);
+        written.push([blob, key]);
+      }
+      assetKeys[path] = key;
+    }
+
+    const record: StoredProject = {
+      name,
+      version: PROJECT_VERSION,
+      savedAt: new Date().toISOString(),
+      settings,
+      assetKeys
+    };
+    transaction.objectStore(storeName).put(record);
+    await committed;
+
+    written.forEach(([blob, key]) => this.assetKeys.set(blob, key));
+    await this.pruneAssets();
+  }
+
+  private async get(storeName: string, name: string): Promise<Project | null> {
+    const database = await this.open();
+    const transaction = database.transaction([storeName, ASSET_STORE], 'readonly');
+    const record: StoredProject | undefined = await promisify(transaction.objectStore(storeName).get(name));
+    if (!record) return null;
+
+    const assets: ProjectAssets = new Map();
+    for (const [path, key] of Object.entries(record.assetKeys)) {
+      const blob: Blob | undefined = await promisify(transaction.objectStore(ASSET_STORE).get(key));
+      if (blob) {
+        assets.set(path, blob);
+        this.assetKeys.set(blob, key);
+      }
+    }
+
+    return {
+      settings: upgradeProjectSettings(record.version, record.settings as unknown as Record<string, unknown>),
+      assets
+    };
+  }
+
+  private async delete(storeName: string, name: string): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(name);
+    await complete(transaction);
+    await this.pruneAssets();
+  }
+
+  // Deletes the files that neither the session nor any preset refers to any more
+  private async pruneAssets(): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction([SESSION_STORE, PRESET_STORE, ASSET_STORE], 'readwrite');
+    const committed = complete(transaction);
+    const referenced = new Set<IDBValidKey>();
+
+    for (const storeName of [SESSION_STORE, PRESET_STORE]) {
+      const records: StoredProject[] = await promisify(transaction.objectStore(storeName).getAll());
+      records.forEach(record => Object.values(record.assetKeys).forEach(key => referenced.add(key)));
+    }
+
+    const assetStore = transaction.objectStore(ASSET_STORE);
+    const keys = await promisify(assetStore.getAllKeys());
+    keys.filter(key => !referenced.has(key)).forEach(key => assetStore.delete(key));
+    await committed;
+  }
+
+  public saveSession(project: Project): Promise<void> {
+    return this.put(SESSION_STORE, SESSION_KEY, project);
+  }
+
+  public loadSession(): Promise<Project | null> {
+    return this.get(SESSION_STORE, SESSION_KEY);
+  }
+
+  // A preset with the same name is replaced
+  public savePreset(name: string, project: Project): Promise<void> {
+    return this.put(PRESET_STORE, name, project);
+  }
+
+  public loadPreset(name: string): Promise<Project | null> {
+    return this.get(PRESET_STORE, name);
+  }
+
+  public deletePreset(name: string): Promise<void> {
+    return this.delete(PRESET_STORE, name);
+  }
+
+  // Preset names and save dates, oldest first, read from the date index's keys
+  public async listPresets(): Promise<PresetInfo[]> {
+    const database = await this.open();
+    const presets: PresetInfo[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const request = database.transaction(PRESET_STORE, 'readonly')
+        .objectStore(PRESET_STORE)
+        .index(SAVED_AT_INDEX)
+        .openKeyCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        presets.push({ name: cursor.primaryKey as string, savedAt: cursor.key as string });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    return presets;
+  }
+}
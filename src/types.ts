@@ -1,9 +1,110 @@
+// A range of a track's decoded audio, in seconds
 export interface AudioSegment {
-  buffer: AudioBuffer;
   startTime: number;
   duration: number;
 }
 
+export type FileImportStage = 'reading' | 'decoding' | 'done' | 'error';
+
+export interface FileImportProgress {
+  stage: FileImportStage;
+  // Fraction of the file read, from 0 to 1
+  progress: number;
+}
+
+// Which track each run plays: a seeded random pick, the next one in list order, or always the same one
+export type TrackSelectionMode = 'random' | 'sequential' | 'fixed';
+
+// What the track list shows about an uploaded track
+export interface AudioTrackInfo {
+  id: number;
+  name: string;
+  duration: number;
+  // Linear gain applied to every segment of the track
+  gain: number;
+  // Seconds skipped at the start of the track before segmenting
+  startOffset: number;
+  segmentCount: number;
+  // Peak amplitude per bucket, from 0 to 1, for the waveform thumbnail
+  peaks: number[];
+}
+
+// Retrigger stops the previous segment and skips hits that come too soon, overlap layers segments
+// up to a voice limit, and legato lets each segment run on until the next hit
+export type SegmentPlaybackMode = 'retrigger' | 'overlap' | 'legato';
+export type SegmentOrder = 'forward' | 'reverse' | 'ping-pong' | 'random';
+
+export interface SegmentPlaybackConfig {
+  mode: SegmentPlaybackMode;
+  order: SegmentOrder;
+  // Maximum segments sounding at once per voice in overlap mode
+  voiceLimit: number;
+}
+
+// A continuous track mixed under the collision sounds while recording
+export interface MusicBedConfig {
+  // Linear gain
+  volume: number;
+  // Fraction of the volume removed while collision sounds play, from 0 to 1
+  ducking: number;
+  // Seconds the bed takes to come back up after a collision
+  duckRelease: number;
+  loop: boolean;
+  // Seconds of fade-out before the end of a recording of known length
+  fadeOut: number;
+}
+
+export interface MasterBusConfig {
+  // Linear gain after the compressor and reverb
+  volume: number;
+  // Threshold in dB
+  compressor: { enabled: boolean; threshold: number; ratio: number };
+  // Ceiling in dBFS
+  limiter: { enabled: boolean; ceiling: number };
+  reverb: { wet: number; decay: number };
+}
+
+// Batch parameters that can be drawn from a range for every clip
+export type RandomizedParameter =
+  | 'gravity'
+  | 'velocityIncrease'
+  | 'velocityDecay'
+  | 'ballGrowth'
+  | 'startX'
+  | 'startY'
+  | 'startSpeed'
+  | 'startAngle';
+
+export interface ParameterRange {
+  enabled: boolean;
+  min: number;
+  max: number;
+}
+
+export interface RandomizationConfig {
+  ranges: Record<RandomizedParameter, ParameterRange>;
+  // One color is picked per clip for the container and the first ball
+  palette: { enabled: boolean; colors: string[] };
+}
+
+// Values drawn for one clip; only enabled parameters are present
+export interface ClipVariation {
+  values: Partial<Record<RandomizedParameter, number>>;
+  color: string | null;
+}
+
+// Start of the first ball; position is a fraction of the canvas, speed in px per step and angle
+// in degrees clockwise from the +x axis. Missing fields keep the default start.
+export interface BallStart {
+  x?: number;
+  y?: number;
+  speed?: number;
+  angle?: number;
+}
+
+// How tracks are split: fixed-length slices, at detected transients, or on the detected beat grid
+export type SegmentationMode = 'fixed' | 'onsets' | 'beats';
+
 export interface TextElement {
   id: string;
   text: string;
@@ -15,3 +116,169 @@ export interface TextElement {
   isDragging: boolean;
   isBold: boolean;
 }
+
+export type ExportFormat = 'webm' | 'mp4';
+
+export interface PhysicsParameters {
+  gravity: number;
+  velocityIncrease: number;
+  velocityDecay: number;
+  ballGrowth: number;
+  ballCount: number;
+  container: ContainerConfig;
+}
+
+export interface ClipManifestEntry {
+  fileName: string;
+  seed: number;
+  duration: number;
+  format: ExportFormat;
+  physics: PhysicsParameters;
+  audioTrack: string | null;
+  // Indexed by ball
+  ballAudioTracks: (string | null)[];
+  noteSequences: NoteEvent[][];
+  instrument: InstrumentConfig;
+  dynamics: DynamicsConfig;
+  melody: MelodyConfig;
+  musicBed: ({ name: string } & MusicBedConfig) | null;
+  masterBus: MasterBusConfig;
+  variation: ClipVariation | null;
+  endReason: EndReason | null;
+}
+
+export interface CollisionEvent {
+  ballIndex: number;
+  time: number;
+  // Speed of the ball into the wall, in pixels per second
+  impactSpeed: number;
+  // Ball radius at the moment of impact, in pixels
+  radius: number;
+  // Where the ball hit, in radians clockwise from the top of the container (0 to 2π)
+  angle: number;
+}
+
+export type ContainerShape = 'circle' | 'triangle' | 'square' | 'hexagon';
+
+export interface ContainerConfig {
+  shape: ContainerShape;
+  // Degrees per second, positive is clockwise
+  rotationSpeed: number;
+  // Angular size of the opening in degrees, 0 for a closed container
+  gapSize: number;
+}
+
+export type EndReason = 'max-radius' | 'escape' | 'collisions' | 'time';
+
+export interface EndConditions {
+  maxRadius: boolean;
+  escape: boolean;
+  // 0 disables the condition
+  collisionCount: number;
+  // Seconds of simulation time, 0 disables the condition
+  timeLimit: number;
+}
+
+export interface EndEvent {
+  reason: EndReason;
+  time: number;
+  collisionCount: number;
+  ballIndex: number | null;
+}
+
+export interface SequenceNote {
+  // Scientific pitch notation, e.g. "C#4"
+  name: string;
+  // Seconds, or Tone.js notation such as "8n"
+  duration: number | string;
+  // 0 to 1
+  velocity: number;
+}
+
+// One step of a note sequence: a single note, a chord, or a rest when empty
+export interface NoteEvent {
+  notes: SequenceNote[];
+}
+
+// A problem found while parsing typed notes; line and column are 1-based
+export interface NoteParseError {
+  message: string;
+  line: number;
+  column: number;
+  length: number;
+}
+
+export type InstrumentType = 'synth' | 'fm' | 'am' | 'pluck' | 'membrane' | 'sampler';
+
+// Times in seconds, sustain is a level from 0 to 1
+export interface EnvelopeConfig {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+// A user-uploaded sample for the sampler instrument, played back at `note`
+export interface InstrumentSample {
+  name: string;
+  note: string;
+}
+
+export interface InstrumentConfig {
+  type: InstrumentType;
+  envelope: EnvelopeConfig;
+  // A wet level of 0 bypasses the effect
+  reverb: { wet: number; decay: number };
+  delay: { wet: number; time: number; feedback: number };
+  samples: InstrumentSample[];
+}
+
+export type DynamicsSource = 'speed' | 'radius';
+export type DynamicsCurve = 'linear' | 'exponential' | 'logarithmic' | 's-curve';
+export type DynamicsTarget = 'gain' | 'velocity' | 'pitch' | 'filter';
+
+// Maps a collision property to an audio parameter. The input range is in the source's units
+// (px/s or px); the output range is a gain or velocity from 0 to 1, a pitch shift in semitones,
+// or a lowpass cutoff in Hz.
+export interface DynamicsMapping {
+  enabled: boolean;
+  source: DynamicsSource;
+  curve: DynamicsCurve;
+  inputMin: number;
+  inputMax: number;
+  outputMin: number;
+  outputMax: number;
+}
+
+export type DynamicsConfig = Record<DynamicsTarget, DynamicsMapping>;
+
+export type ScaleName =
+  | 'major'
+  | 'minor'
+  | 'harmonic-minor'
+  | 'major-pentatonic'
+  | 'minor-pentatonic'
+  | 'blues'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'locrian';
+
+export type MelodyPattern = 'arpeggio' | 'random-walk' | 'progression';
+
+export interface MelodyConfig {
+  // Pitch class of the tonic, e.g. "C" or "F#"
+  key: string;
+  scale: ScaleName;
+  // MIDI note numbers bounding the generated notes
+  lowNote: number;
+  highNote: number;
+  pattern: MelodyPattern;
+  // Number of steps to generate
+  length: number;
+  // Snap typed and imported notes to the scale
+  quantize: boolean;
+  // Pick each note from where the ball hit the container instead of from the sequence
+  angleMapping: boolean;
+}